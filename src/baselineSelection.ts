@@ -0,0 +1,179 @@
+import * as vscode from "vscode";
+import { dirname } from "path";
+import { findAllPlaywrightConfigs, findNearestPlaywrightConfig, getConfigRoot, resolveAllConfigs } from "./playwrightConfig";
+import { sanitizeForFilePath, SNAPSHOT_PLATFORMS } from "./snapshotPathTemplate";
+
+/** Config root → preferred target */
+const STATE_KEY = "playwrightHelpers.baselineTargets";
+
+/**
+ * The Playwright project and platform whose baselines are preferred
+ */
+export interface BaselineTarget {
+  /** Project name, or undefined to prefer none */
+  project?: string;
+  platform: string;
+}
+
+/**
+ * What a candidate file says about where it came from
+ */
+export interface BaselineOrigin {
+  project?: string;
+  platform?: string;
+}
+
+/**
+ * Tracks the active project/platform of each Playwright config, shows the
+ * active editor's in the status bar, and ranks baselines so that combination
+ * comes first while the others stay available
+ */
+export class BaselineSelection implements vscode.Disposable {
+  private statusBarItem: vscode.StatusBarItem;
+  private _onDidChange = new vscode.EventEmitter<BaselineTarget>();
+  public readonly onDidChange: vscode.Event<BaselineTarget> = this._onDidChange.event;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private workspaceState: vscode.Memento,
+    private outputChannel: vscode.OutputChannel
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.statusBarItem.command = "playwright-helpers.selectBaselineTarget";
+
+    this.disposables.push(
+      this.statusBarItem,
+      this._onDidChange,
+      vscode.commands.registerCommand("playwright-helpers.selectBaselineTarget", () => this.pick()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.update())
+    );
+
+    this.update();
+    this.showWhenConfigured();
+  }
+
+  /**
+   * Preferred project and platform for the config in the given directory
+   */
+  getTarget(configRoot: string | undefined): BaselineTarget {
+    const targets = this.workspaceState.get<Record<string, BaselineTarget>>(STATE_KEY) ?? {};
+    return (configRoot && targets[configRoot]) || { platform: process.platform };
+  }
+
+  /**
+   * Sort candidates so the config's active project and platform come first.
+   * The sort is stable, so equally ranked items keep their order.
+   */
+  rank<T>(configRoot: string | undefined, items: T[], getOrigin: (item: T) => BaselineOrigin): T[] {
+    const { project, platform } = this.getTarget(configRoot);
+    const score = (item: T) => {
+      const origin = getOrigin(item);
+      return (
+        (project !== undefined && origin.project === project ? 2 : 0) +
+        (origin.platform === platform ? 1 : 0)
+      );
+    };
+    return items
+      .map((item, index) => ({ item, index, score: score(item) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Whether a test-results directory was written by the active project, from
+   * the `-<project>` suffix Playwright appends to it
+   */
+  matchesOutputDir(configRoot: string | undefined, dirName: string): boolean {
+    const { project } = this.getTarget(configRoot);
+    if (!project) {
+      return false;
+    }
+    const suffix = `-${sanitizeForFilePath(project)}`;
+    return dirName.endsWith(suffix) || new RegExp(`${suffix}-retry\\d+$`).test(dirName);
+  }
+
+  /**
+   * Let the user choose a project/platform combination for the active
+   * editor's config, asking which config first when that's ambiguous
+   */
+  async pick() {
+    const configRoot = await this.pickConfigRoot();
+    if (!configRoot) {
+      return;
+    }
+    const current = this.getTarget(configRoot);
+    const projects = await this.getProjectNames(configRoot);
+    const items: Array<vscode.QuickPickItem & { target: BaselineTarget }> = [];
+
+    for (const project of [...projects, undefined]) {
+      for (const platform of SNAPSHOT_PLATFORMS) {
+        items.push({
+          label: `${project ?? "Any project"} · ${platform}`,
+          description: platform === process.platform ? "this machine" : undefined,
+          picked: project === current.project && platform === current.platform,
+          target: { project, platform },
+        });
+      }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: "Prefer baselines from which project and platform?",
+    });
+    if (!selected) {
+      return;
+    }
+
+    const targets = this.workspaceState.get<Record<string, BaselineTarget>>(STATE_KEY) ?? {};
+    await this.workspaceState.update(STATE_KEY, { ...targets, [configRoot]: selected.target });
+    this.outputChannel.appendLine(`Preferred baselines for ${configRoot}: ${selected.label}`);
+    this.update();
+    this._onDidChange.fire(selected.target);
+  }
+
+  private async pickConfigRoot(): Promise<string | undefined> {
+    const activeRoot = this.getActiveConfigRoot();
+    if (activeRoot) {
+      return activeRoot;
+    }
+    const roots = (await resolveAllConfigs()).map(getConfigRoot);
+    if (roots.length <= 1) {
+      return roots[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+      roots.map((root) => ({ label: vscode.workspace.asRelativePath(root, true) || root, root })),
+      { placeHolder: "Set preferred baselines for which Playwright config?" }
+    );
+    return picked?.root;
+  }
+
+  private async getProjectNames(configRoot: string): Promise<string[]> {
+    const config = (await resolveAllConfigs()).find((candidate) => getConfigRoot(candidate) === configRoot);
+    return (config?.projects ?? []).map((project) => project.name).filter(Boolean);
+  }
+
+  /** Config root of the file in the active editor */
+  private getActiveConfigRoot(): string | undefined {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const configFile = uri?.scheme === "file" ? findNearestPlaywrightConfig(uri.fsPath) : undefined;
+    return configFile && dirname(configFile);
+  }
+
+  private update() {
+    const configRoot = this.getActiveConfigRoot();
+    const { project, platform } = this.getTarget(configRoot);
+    this.statusBarItem.text = `$(device-desktop) ${project ?? "Any project"} · ${platform}`;
+    this.statusBarItem.tooltip = configRoot
+      ? `Playwright project and platform whose baselines are shown first in ${vscode.workspace.asRelativePath(configRoot, true)}`
+      : "Playwright project and platform whose baselines are shown first";
+  }
+
+  private async showWhenConfigured() {
+    if ((await findAllPlaywrightConfigs()).length > 0) {
+      this.statusBarItem.show();
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
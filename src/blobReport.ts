@@ -0,0 +1,299 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import * as os from "os";
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from "path";
+import {
+  buildJSONReport,
+  JSONReport,
+  JSONReportAttachment,
+  JSONReportError,
+  JSONReportShard,
+  JSONReportTest,
+  JSONReportTestResult,
+  JSONReportTestStatus,
+  ReportTestEntry,
+} from "./jsonReport";
+import { findSpecRoot } from "./playwrightConfig";
+import { readZipEntries, ZipEntry } from "./zipArchive";
+
+/**
+ * One line of a blob report's `report.jsonl`: a reporter call recorded on the
+ * machine that ran the shard
+ */
+interface BlobEvent {
+  method: string;
+  params: any;
+}
+
+interface BlobTestCase {
+  testId: string;
+  title: string;
+  location: { file: string; line: number; column: number };
+}
+
+/**
+ * A file or `describe` suite in an `onProject` event. Newer Playwright
+ * versions list children in `entries`, older ones in `suites` and `tests`.
+ */
+interface BlobSuite {
+  title: string;
+  entries?: Array<BlobSuite | BlobTestCase>;
+  suites?: BlobSuite[];
+  tests?: BlobTestCase[];
+}
+
+/**
+ * A test in one project, with its attempts from every shard
+ */
+interface MergedTest {
+  projectName: string;
+  /** Spec path relative to the config directory, with forward slashes */
+  file: string;
+  describePath: string[];
+  title: string;
+  line: number;
+  column: number;
+  expectedStatus: JSONReportTestStatus;
+  results: JSONReportTestResult[];
+}
+
+/**
+ * Blob reports merged into one JSON report
+ */
+export interface MergedBlobReport {
+  /** The merged report, next to the attachments extracted from the blobs */
+  reportFile: string;
+  /** Number of shards the blobs came from */
+  shards: number;
+  tests: number;
+}
+
+/**
+ * Blob report zips among files and folders, looking one level into folders
+ */
+export function collectBlobReportFiles(paths: string[]): string[] {
+  const files = new Set<string>();
+  for (const path of paths) {
+    if (statSync(path).isDirectory()) {
+      readdirSync(path)
+        .filter((name) => extname(name).toLowerCase() === ".zip")
+        .forEach((name) => files.add(join(path, name)));
+    } else if (extname(path).toLowerCase() === ".zip") {
+      files.add(path);
+    }
+  }
+  return [...files].sort();
+}
+
+/**
+ * Merge the blob reports of a sharded run into one JSON report, extracting
+ * their attachments into a temporary cache. Every attempt records the shard
+ * it ran in, and spec paths are mapped onto the workspace where possible.
+ */
+export async function mergeBlobReports(
+  zipFiles: string[],
+  outputChannel: vscode.OutputChannel
+): Promise<MergedBlobReport> {
+  const key = createHash("sha1")
+    .update(zipFiles.map((file) => `${file}:${statSync(file).mtimeMs}`).join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  const cacheDir = join(os.tmpdir(), "playwright-helpers", "blob-reports", key);
+  rmSync(cacheDir, { recursive: true, force: true });
+  mkdirSync(cacheDir, { recursive: true });
+
+  const tests = new Map<string, MergedTest>();
+  const errors: JSONReportError[] = [];
+  const shards = new Set<string>();
+
+  for (const zipFile of zipFiles) {
+    outputChannel.appendLine(`Reading blob report: ${zipFile}`);
+    const entries = readZipEntries(readFileSync(zipFile));
+    const shard = readBlobReport(entries, cacheDir, tests, errors);
+    shards.add(shard ? `${shard.current}/${shard.total}` : zipFile);
+  }
+
+  const report = await buildReport(tests, errors);
+  const reportFile = join(cacheDir, "report.json");
+  writeFileSync(reportFile, JSON.stringify(report));
+
+  const merged = { reportFile, shards: shards.size, tests: tests.size };
+  outputChannel.appendLine(
+    `Merged ${zipFiles.length} blob report(s) from ${merged.shards} shard(s) with ${merged.tests} tests into ${reportFile}`
+  );
+  return merged;
+}
+
+/**
+ * Replay one blob's events into the merged tests, returning its shard
+ */
+function readBlobReport(
+  entries: ZipEntry[],
+  cacheDir: string,
+  tests: Map<string, MergedTest>,
+  errors: JSONReportError[]
+): JSONReportShard | undefined {
+  const events: BlobEvent[] = entries
+    .filter((entry) => entry.name.endsWith(".jsonl"))
+    .flatMap((entry) => entry.read().toString("utf8").split("\n"))
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+  if (events.length === 0) {
+    throw new Error("No report.jsonl in blob report");
+  }
+
+  const resources = new Map(entries.map((entry) => [entry.name, entry]));
+  const results = new Map<string, JSONReportTestResult>();
+  let shard: JSONReportShard | undefined;
+  let pathSeparator = "/";
+  let configDir = "";
+
+  // Spec paths are absolute on the machine that ran the shard
+  const toRelative = (file: string) => {
+    const slashed = file.split(pathSeparator).join("/");
+    return configDir && slashed.startsWith(`${configDir}/`) ? slashed.slice(configDir.length + 1) : slashed;
+  };
+
+  const extract = (attachment: JSONReportAttachment): JSONReportAttachment => {
+    const resource = attachment.path && resources.get(attachment.path.split(pathSeparator).join("/"));
+    if (!resource) {
+      return attachment;
+    }
+    // Entry names come from the blob, which may be an untrusted CI artifact
+    const path = resolve(cacheDir, ...resource.name.split("/"));
+    const inCache = relative(cacheDir, path);
+    if (!inCache || inCache === ".." || inCache.startsWith(`..${sep}`) || isAbsolute(inCache)) {
+      throw new Error(`Blob report entry outside the report: ${resource.name}`);
+    }
+    if (!existsSync(path)) {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, resource.read());
+    }
+    return { ...attachment, path };
+  };
+
+  const addProject = (projectName: string, suite: BlobSuite, describePath: string[]) => {
+    const children = suite.entries ?? [...(suite.suites ?? []), ...(suite.tests ?? [])];
+    for (const child of children) {
+      if ("testId" in child) {
+        if (!tests.has(child.testId)) {
+          tests.set(child.testId, {
+            projectName,
+            file: toRelative(child.location.file),
+            describePath,
+            title: child.title,
+            line: child.location.line,
+            column: child.location.column,
+            expectedStatus: "passed",
+            results: [],
+          });
+        }
+      } else {
+        addProject(projectName, child, [...describePath, child.title]);
+      }
+    }
+  };
+
+  for (const { method, params } of events) {
+    switch (method) {
+      case "onBlobReportMetadata":
+        shard = params.shard ?? undefined;
+        pathSeparator = params.pathSeparator ?? "/";
+        break;
+
+      case "onConfigure": {
+        const config = params.config ?? {};
+        const configFile: string | undefined = config.configFile;
+        const dir = configFile ? configFile.slice(0, configFile.lastIndexOf(pathSeparator)) : config.rootDir ?? "";
+        configDir = dir.split(pathSeparator).join("/");
+        break;
+      }
+
+      case "onProject":
+        // Project-level suites are spec files, whose titles aren't describe blocks
+        for (const fileSuite of params.project.suites ?? []) {
+          addProject(params.project.name ?? "", fileSuite, []);
+        }
+        break;
+
+      case "onTestBegin": {
+        const test = tests.get(params.testId);
+        const result: JSONReportTestResult = {
+          retry: params.result.retry ?? 0,
+          startTime: params.result.startTime,
+          workerIndex: params.result.workerIndex,
+          duration: 0,
+          errors: [],
+          attachments: [],
+          shard,
+        };
+        results.set(params.result.id, result);
+        test?.results.push(result);
+        break;
+      }
+
+      case "onAttach": {
+        const result = results.get(params.resultId);
+        result?.attachments.push(...(params.attachments ?? []).map(extract));
+        break;
+      }
+
+      case "onTestEnd": {
+        const test = tests.get(params.test.testId);
+        const result = results.get(params.result.id);
+        if (test) {
+          test.expectedStatus = params.test.expectedStatus ?? test.expectedStatus;
+        }
+        if (result) {
+          result.status = params.result.status;
+          result.duration = params.result.duration ?? 0;
+          result.errors = params.result.errors ?? [];
+          result.attachments.push(...(params.result.attachments ?? []).map(extract));
+        }
+        break;
+      }
+
+      case "onError":
+        errors.push(params.error);
+        break;
+    }
+  }
+  return shard;
+}
+
+/**
+ * Outcome over every attempt, the way Playwright's json reporter computes it
+ */
+function getOutcome(test: MergedTest): JSONReportTest["status"] {
+  const ran = test.results.filter((result) => result.status !== "skipped" && result.status !== "interrupted");
+  if (ran.length === 0) {
+    return "skipped";
+  }
+  const failed = ran.filter((result) => result.status !== test.expectedStatus).length;
+  return failed === 0 ? "expected" : failed === ran.length ? "unexpected" : "flaky";
+}
+
+async function buildReport(tests: Map<string, MergedTest>, errors: JSONReportError[]): Promise<JSONReport> {
+  // Tests listed by a shard that didn't run them have no results
+  const ran = [...tests.values()].filter((test) => test.results.length > 0);
+  const rootDir =
+    (await findSpecRoot(ran.map((test) => test.file))) ??
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+    os.tmpdir();
+
+  const entries: ReportTestEntry[] = ran.map((test) => ({
+    file: test.file,
+    describePath: test.describePath,
+    title: test.title,
+    line: test.line,
+    column: test.column,
+    test: {
+      projectName: test.projectName,
+      expectedStatus: test.expectedStatus,
+      status: getOutcome(test),
+      results: test.results.sort((a, b) => a.retry - b.retry),
+    },
+  }));
+  return buildJSONReport(rootDir, entries, errors);
+}
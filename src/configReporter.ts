@@ -0,0 +1,133 @@
+/**
+ * Playwright reporter used by the config resolver. Run with
+ * `playwright test --list --reporter=<this file>`, it writes the resolved
+ * configuration as JSON to PLAYWRIGHT_HELPERS_CONFIG_OUTPUT and nothing else.
+ *
+ * This file is loaded by the project's own Playwright, so it must not
+ * import vscode or anything outside Node's standard library.
+ */
+import { writeFileSync } from "fs";
+import { pathToFileURL } from "url";
+
+// Minimal shapes of the reporter API types we read
+interface FullProjectLike {
+  name: string;
+  testDir: string;
+  outputDir: string;
+  snapshotDir: string;
+  /** Public since Playwright 1.28, the first release with templates */
+  snapshotPathTemplate?: string;
+  use?: { [key: string]: unknown };
+}
+
+interface FullConfigLike {
+  configFile?: string;
+  rootDir: string;
+  projects: FullProjectLike[];
+}
+
+type Options = { [key: string]: unknown };
+
+function isObject(value: unknown): value is Options {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * The config as written in the config file. `config.reporter` only holds
+ * this reporter, since the resolver overrides it on the command line, so the
+ * module Playwright loaded is read back: from the require cache for CommonJS
+ * configs, or by importing it again, which returns the loaded ES module.
+ */
+async function loadUserConfig(configFile: string | undefined): Promise<Options | undefined> {
+  if (!configFile) {
+    return undefined;
+  }
+  let loaded: unknown = require.cache[configFile]?.exports;
+  if (!loaded) {
+    try {
+      loaded = await import(pathToFileURL(configFile).href);
+    } catch {
+      return undefined;
+    }
+  }
+  const config = isObject(loaded) && isObject(loaded.default) ? loaded.default : loaded;
+  return isObject(config) ? config : undefined;
+}
+
+/** Defaults some Playwright versions fill in for projects without a template */
+const DEFAULT_TEMPLATES = [
+  "{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{-projectName}{-snapshotSuffix}{ext}",
+  "{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{-projectName}{-platform}{ext}",
+];
+
+/**
+ * The project's configured snapshot path template, if it has one: from the
+ * resolved project, or else as written for the project or the whole config
+ */
+function getSnapshotPathTemplate(project: FullProjectLike, userConfig: Options | undefined): string | undefined {
+  const userProjects: unknown[] = userConfig && Array.isArray(userConfig.projects) ? userConfig.projects : [];
+  const userProject = userProjects.find((entry) => isObject(entry) && (entry.name ?? "") === project.name);
+  const template =
+    project.snapshotPathTemplate ??
+    (isObject(userProject) ? userProject.snapshotPathTemplate : undefined) ??
+    userConfig?.snapshotPathTemplate;
+  return typeof template === "string" && !DEFAULT_TEMPLATES.includes(template) ? template : undefined;
+}
+
+/**
+ * Normalize the `reporter` option into `[name, options]` pairs
+ */
+function normalizeReporters(reporter: unknown): Array<[string, Options]> {
+  if (typeof reporter === "string") {
+    return [[reporter, {}]];
+  }
+  if (Array.isArray(reporter)) {
+    return reporter.map((entry: unknown): [string, Options] =>
+      Array.isArray(entry) ? [String(entry[0]), isObject(entry[1]) ? entry[1] : {}] : [String(entry), {}]
+    );
+  }
+  return [];
+}
+
+class ConfigReporter {
+  private config: FullConfigLike | undefined;
+
+  onBegin(config: FullConfigLike) {
+    this.config = config;
+  }
+
+  async onEnd() {
+    const outputFile = process.env.PLAYWRIGHT_HELPERS_CONFIG_OUTPUT;
+    const config = this.config;
+    if (!outputFile || !config) {
+      return;
+    }
+
+    const userConfig = await loadUserConfig(config.configFile);
+    const resolved = {
+      configFile: config.configFile,
+      rootDir: config.rootDir,
+      reporters: normalizeReporters(userConfig?.reporter),
+      reportersUnavailable: !userConfig,
+      projects: config.projects.map((project) => {
+        const use = project.use || {};
+        return {
+          name: project.name,
+          testDir: project.testDir,
+          outputDir: project.outputDir,
+          snapshotDir: project.snapshotDir,
+          snapshotPathTemplate: getSnapshotPathTemplate(project, userConfig),
+          browserName: use.browserName || use.defaultBrowserType,
+        };
+      }),
+    };
+
+    writeFileSync(outputFile, JSON.stringify(resolved));
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export = ConfigReporter;
@@ -1,12 +1,37 @@
 import * as vscode from "vscode";
-import { dirname, join, basename, sep, relative } from "path";
+import { dirname, join, basename, sep, relative, normalize } from "path";
 import { existsSync, readFileSync } from "fs";
 import { glob } from "glob";
-import { createHash } from 'crypto';
-import { openTestResultsGallery } from './testResultsGallery';
-import * as os from 'os';
+import { escapeHtml, openImportedTestResults, openTestResultsGallery } from './testResultsGallery';
+import { collectBlobReportFiles, mergeBlobReports } from './blobReport';
+import { importHtmlReport, isHtmlReportFolder } from './htmlReport';
+import { getTestGrepPattern, isPlaywrightTestSource, SnapshotAssertion, TestBlock, TestCache } from './testDiscovery';
+import { FailedSnapshotFiles, PlaywrightTestController } from './testController';
+import { executePlaywright, onDidCompletePlaywrightRun, PlaywrightRunResult } from './playwrightRunner';
+import { findNearestPlaywrightConfig, getConfigRoot, getProjectsForFile, initConfigResolver, ResolvedPlaywrightConfig, resolveAllConfigs, resolveConfigForFile } from './playwrightConfig';
+import { findSnapshotOwner, getTemplateBaseDir } from './snapshotPathTemplate';
+import { TestSnapshot } from './snapshotLocator';
+import { SnapshotIndex } from './snapshotIndex';
+import { BaselineSelection } from './baselineSelection';
+import { ThumbnailCache } from './thumbnailCache';
+import { diffPngFiles, formatDiffSummary, ImageDiffResult } from './imageDiff';
+import { encodePng } from './png';
+import { exportFileAtRevision, isInRepository, pickRevision } from './gitRevisions';
+import { SnapshotHealthView } from './snapshotHealth';
+import { VisualTestsView } from './visualTestsView';
+import { initSnapshotWatcher, onDidChangeSnapshotFiles, SnapshotFileChanges } from './snapshotWatcher';
+import { findSnapshotDirectory, getSettings, getSnapshotImageGlob, initSettings, isTestFilePath, onDidChangeSettings, shouldConfirmUpdates } from './settings';
 
 let outputChannel: vscode.OutputChannel;
+let baselineSelection: BaselineSelection;
+let thumbnailCache: ThumbnailCache;
+let snapshotIndex: SnapshotIndex;
+
+/** Thumbnail generation in progress for each open gallery */
+const thumbnailJobs = new WeakMap<vscode.WebviewPanel, { cancelled: boolean }>();
+
+/** Snapshot files each open gallery has a tile for */
+const renderedSnapshots = new WeakMap<vscode.WebviewPanel, Set<string>>();
 
 /**
  * Represents a discovered snapshot location
@@ -23,7 +48,8 @@ interface SnapshotLocation {
 }
 
 /**
- * Find all __snapshots__ directories across ALL workspace folders at any nesting level
+ * Find all snapshot directories (matching the `snapshotDirectories` setting)
+ * across ALL workspace folders at any nesting level
  * Uses VS Code's built-in file index for fast searching
  */
 async function findAllSnapshotDirectories(): Promise<SnapshotLocation[]> {
@@ -36,26 +62,33 @@ async function findAllSnapshotDirectories(): Promise<SnapshotLocation[]> {
     return locations;
   }
   
-  outputChannel.appendLine(`Searching for __snapshots__ directories using VS Code file index...`);
+  outputChannel.appendLine(`Searching for snapshot directories using VS Code file index...`);
   
-  // Use VS Code's fast file search to find PNG files in __snapshots__ directories
-  const pngFiles = await vscode.workspace.findFiles('**/__snapshots__/**/*.png', '**/node_modules/**');
+  // Use VS Code's fast file search to find PNG files in snapshot directories
+  const pngFiles = await vscode.workspace.findFiles(getSnapshotImageGlob(), '**/node_modules/**');
   
-  outputChannel.appendLine(`Found ${pngFiles.length} PNG files in __snapshots__ directories`);
+  outputChannel.appendLine(`Found ${pngFiles.length} PNG files in snapshot directories`);
   
-  // Extract unique __snapshots__ directories from the file paths
+  // Extract unique snapshot directories from the file paths
   for (const file of pngFiles) {
-    const filePath = file.fsPath.replace(/\\/g, '/');
-    const snapshotsIndex = filePath.lastIndexOf('__snapshots__');
-    
-    if (snapshotsIndex !== -1) {
-      const snapshotsDir = filePath.substring(0, snapshotsIndex + '__snapshots__'.length);
-      foundDirs.add(snapshotsDir);
+    const snapshotsDir = findSnapshotDirectory(file.fsPath);
+    if (snapshotsDir) {
+      foundDirs.add(snapshotsDir.replace(/\\/g, '/'));
     }
   }
   
-  outputChannel.appendLine(`Found ${foundDirs.size} unique __snapshots__ directories`);
-  
+  outputChannel.appendLine(`Found ${foundDirs.size} unique snapshot directories`);
+
+  // Also include directories that a configured snapshotPathTemplate writes to
+  for (const config of await resolveAllConfigs()) {
+    for (const project of config.projects) {
+      const templateDir = getTemplateBaseDir(config, project);
+      if (templateDir && existsSync(templateDir)) {
+        foundDirs.add(templateDir.replace(/\\/g, '/'));
+      }
+    }
+  }
+
   for (const dirPath of foundDirs) {
     // Find which workspace folder this directory belongs to
     const workspaceFolder = workspaceFolders.find(f => dirPath.startsWith(f.uri.fsPath.replace(/\\/g, '/')));
@@ -84,6 +117,13 @@ async function findAllSnapshotDirectories(): Promise<SnapshotLocation[]> {
     outputChannel.appendLine(`Valid snapshot directory: ${workspaceName}/${relativePath}`);
   }
   
+  // Several packages in one workspace folder need their paths to tell them apart
+  for (const location of locations) {
+    if (locations.some(other => other !== location && other.displayName === location.displayName)) {
+      location.displayName = location.relativePath;
+    }
+  }
+
   // Sort by display name for consistency
   locations.sort((a, b) => a.displayName.localeCompare(b.displayName));
   
@@ -132,108 +172,6 @@ async function selectSnapshotLocation(locations: SnapshotLocation[]): Promise<Sn
   });
 }
 
-/**
- * Get the platform-specific identifier for Playwright snapshots
- * @returns Platform identifier (e.g., 'darwin', 'win32', 'linux')
- */
-function getPlatformIdentifier(): string {
-  const platform = os.platform();
-  // Playwright uses these platform identifiers in snapshot filenames
-  switch (platform) {
-    case 'darwin':
-      return 'darwin';
-    case 'win32':
-      return 'win32';
-    case 'linux':
-      return 'linux';
-    default:
-      return platform;
-  }
-}
-
-/**
- * Create platform-agnostic glob patterns for snapshot files
- * Supports all platforms (darwin, win32, linux) and both chromium and webkit browsers
- */
-function getSnapshotPatterns(basePath: string): string[] {
-  const platforms = ['darwin', 'win32', 'linux'];
-  const browsers = ['chromium', 'webkit', 'firefox'];
-  const patterns: string[] = [];
-  
-  // Generate patterns for all platform/browser combinations
-  for (const platform of platforms) {
-    for (const browser of browsers) {
-      patterns.push(join(basePath, `*-${browser}-${platform}.png`));
-    }
-  }
-  
-  // Also add a generic pattern as fallback
-  patterns.push(join(basePath, '*.png'));
-  
-  return patterns;
-}
-
-interface TestBlock {
-  name: string;
-  range: vscode.Range;
-  startLine: number;
-  endLine: number;
-}
-
-function findTestBlock(
-  lines: string[],
-  startLine: number
-): TestBlock | undefined {
-  const line = lines[startLine];
-  const testMatch = line.match(/test(?:\.only)?\s*\(\s*['"`](.*?)['"`]/);
-
-  if (!testMatch) {
-    return undefined;
-  }
-
-  // Find the end of the test block by counting braces
-  let braceCount = 0;
-  let foundOpenBrace = false;
-
-  // Find the opening brace first
-  for (let j = startLine; j < Math.min(lines.length, startLine + 5); j++) {
-    const checkLine = lines[j];
-    if (checkLine.includes("{")) {
-      foundOpenBrace = true;
-      braceCount = 1;
-      break;
-    }
-  }
-
-  if (!foundOpenBrace) {
-    return undefined;
-  }
-
-  // Now find the closing brace
-  let endLine = startLine;
-  for (let j = startLine + 1; j < lines.length; j++) {
-    const checkLine = lines[j];
-    braceCount += (checkLine.match(/{/g) || []).length;
-    braceCount -= (checkLine.match(/}/g) || []).length;
-
-    if (braceCount === 0) {
-      endLine = j;
-      break;
-    }
-  }
-
-  return {
-    name: testMatch[1],
-    range: new vscode.Range(startLine, 0, endLine, lines[endLine].length),
-    startLine,
-    endLine,
-  };
-}
-
-class TestSymbol {
-  constructor(public name: string, public range: vscode.Range) {}
-}
-
 function debounce<T extends (...args: any[]) => any>(
   fn: T,
   wait: number
@@ -245,276 +183,65 @@ function debounce<T extends (...args: any[]) => any>(
   };
 }
 
-class TestCache {
-  private cache: Map<string, { tests: TestBlock[]; version: number }> =
-    new Map();
-
-  getTests(document: vscode.TextDocument): TestBlock[] {
-    const key = document.uri.toString();
-    const cached = this.cache.get(key);
-
-    if (cached && cached.version === document.version) {
-      return cached.tests;
-    }
-
-    const tests = this.findTestsInDocument(document);
-    this.cache.set(key, { tests, version: document.version });
-    return tests;
-  }
-
-  private findTestsInDocument(document: vscode.TextDocument): TestBlock[] {
-    const tests: TestBlock[] = [];
-    const text = document.getText();
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const testBlock = findTestBlock(lines, i);
-      if (testBlock) {
-        tests.push(testBlock);
-      }
-    }
-
-    return tests;
-  }
-
-  clear(document: vscode.TextDocument) {
-    this.cache.delete(document.uri.toString());
-  }
-}
-
 async function isPlaywrightTestFile(
   document: vscode.TextDocument
 ): Promise<boolean> {
-  // Check file name pattern first
-  if (!document.fileName.match(/\.(spec|test)\.(js|ts|mjs|cjs)$/)) {
-    return false;
-  }
-
-  // Check for Playwright imports or usage
-  const text = document.getText();
-  return (
-    text.includes("@playwright/test") ||
-    text.includes("playwright/test") ||
-    text.includes("import { test }") ||
-    text.includes("const { test }")
-  );
-}
-
-async function findPlaywrightConfig(
-  workspaceRoot: string
-): Promise<string | undefined> {
-  const configFiles = [
-    join(workspaceRoot, "playwright.config.ts"),
-    join(workspaceRoot, "playwright.config.js"),
-  ];
-
-  for (const configFile of configFiles) {
-    if (existsSync(configFile)) {
-      return configFile;
-    }
-  }
-  return undefined;
-}
-
-async function getSnapshotDirFromConfig(
-  workspaceRoot: string,
-  testFilePath: string
-): Promise<string | undefined> {
-  const configPath = await findPlaywrightConfig(workspaceRoot);
-  if (!configPath) {
-    return undefined;
-  }
-
-  try {
-    const configContent = readFileSync(configPath, "utf8");
-
-    // Look for snapshotDir in the config
-    const snapshotDirMatch = configContent.match(
-      /snapshotDir:\s*['"`](.*?)['"`]/
-    );
-    if (snapshotDirMatch) {
-      let snapshotDir = snapshotDirMatch[1];
-
-      // Get the test file name and extension
-      const testFileName = basename(testFilePath);
-
-      // Replace template variables
-      let processedDir = snapshotDir;
-      processedDir = processedDir.replace("{testFileName}", testFileName);
-      processedDir = processedDir.replace("{arg}", "");
-      processedDir = processedDir.replace("{ext}", "");
-
-      return join(workspaceRoot, processedDir);
-    }
-
-    // If no explicit snapshotDir, check for testDir
-    const testDirMatch = configContent.match(/testDir:\s*['"`](.*?)['"`]/);
-    if (testDirMatch) {
-      const testDir = testDirMatch[1];
-      return join(workspaceRoot, testDir, "__snapshots__");
-    }
-  } catch (error) {
-    // Silent fail - if we can't read config, we'll just return undefined
-  }
-
-  return undefined;
-}
-
-function formatSnapshotName(testName: string): string[] {
-  const kebabName = testName.replace(/\s+/g, "-").toLowerCase();
-  const prefixedName = kebabName.startsWith("dashboard-")
-    ? kebabName
-    : `dashboard-${kebabName}`;
-
-  // Try variations with different suffixes and prefixes
-  return [prefixedName, `${prefixedName}-1`, `${prefixedName}-2`, kebabName];
+  return isPlaywrightTestSource(document.fileName, document.getText());
 }
 
-async function findSnapshotPath(
+/**
+ * Find every baseline a test owns, from the snapshot assertions in its body
+ */
+async function findTestSnapshotFiles(
   testFilePath: string,
-  testName: string
-): Promise<string | undefined> {
-  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (!workspaceRoot) {
-    return undefined;
-  }
-
-  // First try to get snapshot directory from Playwright config
-  const configSnapshotDir = await getSnapshotDirFromConfig(
-    workspaceRoot,
-    testFilePath
-  );
-
-  if (configSnapshotDir) {
-    // Get all possible snapshot name variations
-    const snapshotNames = formatSnapshotName(testName);
-    const testFileName = basename(testFilePath);
-
-    // Try each snapshot name variation
-    for (const snapshotName of snapshotNames) {
-      // Build base paths to search
-      const basePaths = [
-        join(configSnapshotDir, snapshotName),
-        join(configSnapshotDir, snapshotName, snapshotName),
-        configSnapshotDir,
-        join(configSnapshotDir, testFileName, snapshotName),
-      ];
-
-      // For each base path, try all platform patterns
-      for (const basePath of basePaths) {
-        const patterns = getSnapshotPatterns(basePath);
-        
-        for (const pattern of patterns) {
-          try {
-            // Normalize path for glob (prefers forward slashes even on Windows)
-            const normalizedPattern = pattern.replace(/\\/g, '/');
-            const matches = await glob(normalizedPattern, { nodir: true });
-            if (matches.length > 0) {
-              return matches[0];
-            }
-          } catch (error) {
-            continue;
-          }
-        }
-      }
-    }
-
-    // If still not found, try a more flexible cross-platform search
-    for (const snapshotName of snapshotNames) {
-      // Try multiple flexible patterns to catch various naming conventions
-      const flexiblePatterns = [
-        join(configSnapshotDir, "**", `*${snapshotName}*.png`),
-        join(configSnapshotDir, "**", `${snapshotName}*.png`),
-      ];
-      
-      for (const pattern of flexiblePatterns) {
-        try {
-          // Normalize path for glob (prefers forward slashes even on Windows)
-          const normalizedPattern = pattern.replace(/\\/g, '/');
-          const matches = await glob(normalizedPattern, { nodir: true });
-          if (matches.length > 0) {
-            return matches[0];
-          }
-        } catch (error) {
-          continue;
-        }
-      }
-    }
+  test: TestBlock
+): Promise<TestSnapshot[]> {
+  const config = await resolveConfigForFile(testFilePath);
+  if (!config) {
+    return [];
   }
 
-  return undefined;
+  // Baselines for the config's active project and platform first
+  const snapshots = await snapshotIndex.findTestSnapshots(config, testFilePath, test);
+  return baselineSelection.rank(getConfigRoot(config), snapshots, s => ({ project: s.project.name, platform: s.platform }));
 }
 
-async function getOutputDirFromConfig(workspaceRoot: string): Promise<string> {
-  const configPath = await findPlaywrightConfig(workspaceRoot);
-  if (!configPath) {
-    return join(workspaceRoot, "test-results"); // Default Playwright output directory
+async function getOutputDirFromConfig(
+  config: ResolvedPlaywrightConfig | undefined,
+  testFilePath: string
+): Promise<string> {
+  // Default Playwright output directory, next to the config
+  const configRoot = config ? getConfigRoot(config) : dirname(findNearestPlaywrightConfig(testFilePath) ?? testFilePath);
+  const defaultOutputDir = join(configRoot, getSettings().outputDirectory);
+  if (!config || config.projects.length === 0) {
+    return defaultOutputDir;
   }
 
-  try {
-    const configContent = readFileSync(configPath, "utf8");
-    const outputDirMatch = configContent.match(/outputDir:\s*['"`](.*?)['"`]/);
-    return outputDirMatch
-      ? join(workspaceRoot, outputDirMatch[1])
-      : join(workspaceRoot, "test-results");
-  } catch (error) {
-    return join(workspaceRoot, "test-results");
-  }
+  const projects = getProjectsForFile(config, testFilePath);
+  return projects[0].outputDir || defaultOutputDir;
 }
 
 async function findFailedSnapshotFiles(
   testFilePath: string,
   testName: string
-): Promise<{ actual: string; expected: string; diff: string } | undefined> {
-  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (!workspaceRoot) {
-    return undefined;
-  }
-
-  const outputDir = await getOutputDirFromConfig(workspaceRoot);
+): Promise<FailedSnapshotFiles | undefined> {
+  const config = await resolveConfigForFile(testFilePath);
+  const configRoot = config && getConfigRoot(config);
+  const outputDir = await getOutputDirFromConfig(config, testFilePath);
   const sanitizedTestName = testName
     .replace(/[^a-zA-Z0-9]/g, "-")
     .toLowerCase();
 
-  // Try different possible paths where Playwright might store the failed snapshots
-  const pathVariations = [
-    join(outputDir, "**", sanitizedTestName, "*.png"),
-    join(outputDir, "**", "*" + sanitizedTestName + "*", "*.png"),
-    join(outputDir, "**", "*" + sanitizedTestName, "*.png"),
-    join(outputDir, "**", sanitizedTestName + "*", "*.png"),
-  ];
-
-  for (const pattern of pathVariations) {
-    try {
-      // Normalize path for glob (prefers forward slashes even on Windows)
-      const normalizedPattern = pattern.replace(/\\/g, '/');
-      const files = await glob(normalizedPattern);
-      const actual = files.find((f) => f.includes("-actual.png"));
-      const expected = files.find((f) => f.includes("-expected.png"));
-      const diff = files.find((f) => f.includes("-diff.png"));
-
-      if (actual && expected && diff) {
-        return { actual, expected, diff };
-      }
-    } catch (error) {
-      continue;
-    }
-  }
+  // Output directories are named after the test, plus the project and retry
+  const candidates = await snapshotIndex.findFailures(outputDir, sanitizedTestName);
 
-  return undefined;
-}
-
-interface SnapshotCache {
-  version: number;
-  timestamp: number;
-  snapshots: {
-    [path: string]: {
-      thumbnail: string;
-      fullImage?: string;
-      hash: string;
-      lastModified: number;
-    }
-  };
+  // Prefer the failure recorded by the active project (test-results/<test>-<project>)
+  const [best] = baselineSelection.rank(configRoot, candidates, (c) => ({
+    project: baselineSelection.matchesOutputDir(configRoot, basename(c.dir))
+      ? baselineSelection.getTarget(configRoot).project
+      : undefined,
+  }));
+  return best && { actual: best.actual, expected: best.expected, diff: best.diff };
 }
 
 class PlaywrightCodeLensProvider implements vscode.CodeLensProvider {
@@ -539,7 +266,13 @@ class PlaywrightCodeLensProvider implements vscode.CodeLensProvider {
       vscode.workspace.onDidSaveTextDocument((doc) => {
         this.testCache.clear(doc);
         refreshCodeLenses();
-      })
+      }),
+      // Snapshots and failures change once a run finishes, or when files
+      // are written outside the extension
+      onDidCompletePlaywrightRun(refreshCodeLenses),
+      snapshotIndex.onDidChange(refreshCodeLenses),
+      // Lenses open the preferred project's baselines first
+      baselineSelection.onDidChange(refreshCodeLenses)
     );
   }
 
@@ -554,80 +287,209 @@ class PlaywrightCodeLensProvider implements vscode.CodeLensProvider {
       return [];
     }
 
-    const tests = this.testCache.getTests(document);
+    // Lenses come from the parsed assertions alone; resolveCodeLens looks up their files
+    const filePath = document.uri.fsPath;
+    const lineRange = (line: number) => new vscode.Range(line, 0, line, document.lineAt(line).text.length);
     const codeLenses: vscode.CodeLens[] = [];
 
-    for (const test of tests) {
-      // Add the existing update snapshot codelens
-      const snapshotPath = await findSnapshotPath(
-        document.uri.fsPath,
-        test.name
-      );
+    for (const test of this.testCache.getTests(document)) {
+      codeLenses.push(new TestCodeLens(lineRange(test.startLine), "update", filePath, test));
+      if (test.snapshots.length === 0) {
+        continue;
+      }
       codeLenses.push(
-        new vscode.CodeLens(
-          new vscode.Range(
-            test.startLine,
-            0,
-            test.startLine,
-            document.lineAt(test.startLine).text.length
-          ),
-          {
-            title: `▶ ${snapshotPath ? "Update" : "Create"} Snapshot`,
-            command: "playwright-helpers.updateSelectedTest",
-            arguments: [test.name, test.startLine, !snapshotPath],
-          }
-        )
+        new TestCodeLens(lineRange(test.startLine), "view", filePath, test),
+        new TestCodeLens(lineRange(test.startLine), "diff", filePath, test)
       );
 
-      // Check if snapshot exists and add view snapshot codelens
-      if (snapshotPath) {
+      // A lens above each assertion that opens exactly its baseline
+      for (const assertion of test.snapshots) {
         codeLenses.push(
-          new vscode.CodeLens(
-            new vscode.Range(
-              test.startLine,
-              0,
-              test.startLine,
-              document.lineAt(test.startLine).text.length
-            ),
-            {
-              title: "👁 View Snapshot",
-              command: "vscode.open",
-              arguments: [vscode.Uri.file(snapshotPath)],
-            }
-          )
+          new TestCodeLens(lineRange(assertion.line), "viewAssertion", filePath, test, assertion),
+          new TestCodeLens(lineRange(assertion.line), "compare", filePath, test, assertion)
         );
       }
+    }
 
-      // Add diff lens if failed snapshots exist
-      const failedSnapshots = await findFailedSnapshotFiles(
-        document.uri.fsPath,
-        test.name
-      );
-      if (failedSnapshots) {
-        codeLenses.push(
-          new vscode.CodeLens(
-            new vscode.Range(
-              test.startLine,
-              0,
-              test.startLine,
-              document.lineAt(test.startLine).text.length
-            ),
-            {
-              title: "🔍 View Snapshot Diff",
-              command: "playwright-helpers.showSnapshotDiff",
-              arguments: [
-                failedSnapshots.actual,
-                failedSnapshots.expected,
-                failedSnapshots.diff,
-              ],
-            }
-          )
+    return codeLenses;
+  }
+
+  async resolveCodeLens(codeLens: vscode.CodeLens): Promise<vscode.CodeLens> {
+    if (!(codeLens instanceof TestCodeLens)) {
+      return codeLens;
+    }
+    const { kind, filePath, test, assertion } = codeLens;
+
+    if (kind === "diff") {
+      const failedSnapshots = await findFailedSnapshotFiles(filePath, test.name);
+      codeLens.command = failedSnapshots
+        ? {
+            title: "🔍 View Snapshot Diff",
+            command: "playwright-helpers.showSnapshotDiff",
+            arguments: [failedSnapshots.actual, failedSnapshots.expected, failedSnapshots.diff],
+          }
+        : { title: "🔍 No Snapshot Diff", command: "" };
+      return codeLens;
+    }
+
+    const snapshots = await findTestSnapshotFiles(filePath, test);
+    const owned = snapshots.filter(s => s.name.assertion === assertion);
+
+    switch (kind) {
+      case "update":
+        codeLens.command = {
+          title: `▶ ${snapshots.length > 0 ? "Update" : "Create"} Snapshot`,
+          command: "playwright-helpers.updateSelectedTest",
+          arguments: [test.name, test.startLine, snapshots.length === 0],
+        };
+        break;
+      case "view":
+        if (snapshots.length === 0) {
+          codeLens.command = { title: "👁 No Snapshots", command: "" };
+          break;
+        }
+        codeLens.command = getViewSnapshotsCommand(
+          test.name,
+          snapshots,
+          snapshots.length === 1 ? "👁 View Snapshot" : `👁 View Snapshots (${snapshots.length})`
         );
+        break;
+      case "viewAssertion": {
+        if (owned.length === 0) {
+          codeLens.command = { title: "👁 No Baseline", command: "" };
+          break;
+        }
+        const label = owned[0].name.isPattern ? `${basename(owned[0].path)} (${owned.length})` : owned[0].name.fileName;
+        codeLens.command = getViewSnapshotsCommand(test.name, owned, `👁 ${label}`);
+        break;
       }
+      case "compare":
+        if (owned.length === 0) {
+          codeLens.command = { title: "⇄ Nothing to Compare", command: "" };
+          break;
+        }
+        codeLens.command = {
+          title: "⇄ Compare with…",
+          command: "playwright-helpers.compareWithRevision",
+          arguments: [owned.map(s => s.path)],
+        };
+        break;
     }
+    return codeLens;
+  }
+}
 
-    return codeLenses;
+/**
+ * A CodeLens for one test or assertion whose command is filled in by resolveCodeLens
+ */
+class TestCodeLens extends vscode.CodeLens {
+  constructor(
+    range: vscode.Range,
+    public readonly kind: "update" | "view" | "viewAssertion" | "compare" | "diff",
+    public readonly filePath: string,
+    public readonly test: TestBlock,
+    public readonly assertion?: SnapshotAssertion
+  ) {
+    super(range);
+  }
+}
+
+/**
+ * Open a single baseline directly, or let the user pick from several
+ */
+function getViewSnapshotsCommand(testName: string, snapshots: TestSnapshot[], title: string): vscode.Command {
+  return snapshots.length === 1
+    ? { title, command: "vscode.open", arguments: [vscode.Uri.file(snapshots[0].path)] }
+    : { title, command: "playwright-helpers.viewTestSnapshots", arguments: [testName, snapshots] };
+}
+
+/**
+ * QuickPick of every baseline a test owns, previewing each as it's highlighted
+ */
+async function showTestSnapshots(testName: string, snapshots: TestSnapshot[]) {
+  const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { path: string }>();
+  quickPick.title = `Snapshots for "${testName}"`;
+  quickPick.placeholder = `${snapshots.length} baselines - select one to open`;
+  quickPick.matchOnDescription = true;
+  quickPick.items = snapshots.map(snapshot => ({
+    label: `$(file-media) ${basename(snapshot.path)}`,
+    description: [snapshot.project.name, snapshot.platform].filter(Boolean).join(" · "),
+    detail: vscode.workspace.asRelativePath(snapshot.path),
+    path: snapshot.path,
+  }));
+
+  quickPick.onDidChangeActive(([item]) => {
+    if (item) {
+      vscode.commands.executeCommand("vscode.open", vscode.Uri.file(item.path), { preview: true, preserveFocus: true });
+    }
+  });
+  quickPick.onDidAccept(() => {
+    const [item] = quickPick.selectedItems;
+    quickPick.dispose();
+    if (item) {
+      vscode.commands.executeCommand("vscode.open", vscode.Uri.file(item.path), { preview: false });
+    }
+  });
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
+
+/**
+ * Diff a baseline against its content at a git revision the user picks.
+ * Accepts a path, an explorer URI, or several baselines to choose from.
+ */
+async function compareSnapshotWithRevision(target?: vscode.Uri | string | string[]) {
+  let paths = target instanceof vscode.Uri ? [target.fsPath] : typeof target === "string" ? [target] : target ?? [];
+
+  if (paths.length === 0) {
+    const picked = await vscode.window.showOpenDialog({
+      filters: { Images: ["png"] },
+      openLabel: "Compare with Revision",
+    });
+    paths = picked ? [picked[0].fsPath] : [];
+  } else if (paths.length > 1) {
+    const picked = await vscode.window.showQuickPick(
+      paths.map(path => ({
+        label: `$(file-media) ${basename(path)}`,
+        detail: vscode.workspace.asRelativePath(path),
+        path,
+      })),
+      { placeHolder: "Which baseline should be compared?" }
+    );
+    paths = picked ? [picked.path] : [];
+  }
+
+  const [snapshotPath] = paths;
+  if (!snapshotPath) {
+    return;
+  }
+
+  if (!(await isInRepository(snapshotPath))) {
+    vscode.window.showErrorMessage(`${basename(snapshotPath)} is not inside a git repository`);
+    return;
+  }
+
+  const revision = await pickRevision(snapshotPath);
+  if (!revision) {
+    return;
+  }
+
+  let revisionPath: string;
+  try {
+    revisionPath = await exportFileAtRevision(snapshotPath, revision.ref);
+  } catch (error) {
+    outputChannel.appendLine(`Could not read ${snapshotPath} at ${revision.ref}: ${error}`);
+    vscode.window.showErrorMessage(`${basename(snapshotPath)} does not exist at ${revision.label}`);
+    return;
   }
+
+  await vscode.commands.executeCommand(
+    "playwright-helpers.showSnapshotDiff",
+    snapshotPath,
+    revisionPath,
+    undefined,
+    { expected: revision.label, actual: "Working Tree" }
+  );
 }
 
 /**
@@ -683,6 +545,158 @@ function getSnapshotLoadingHtml(message: string = "Loading Snapshots...", detail
   `;
 }
 
+/**
+ * Spec file a snapshot is grouped under in the gallery
+ */
+function getSnapshotTestFile(config: ResolvedPlaywrightConfig | undefined, file: string): string {
+  // Extract test file name from path (cross-platform)
+  // Normalize path separators for consistent splitting
+  const normalizedPath = file.replace(/\\/g, '/');
+
+  // Try to extract spec file from path - handle various patterns
+  let specFile = 'Unknown';
+
+  // Pattern 0: reverse the configured snapshotPathTemplate
+  const owner = config ? findSnapshotOwner(config, file) : undefined;
+  // Pattern 1: __snapshots__/visual-tests/specFile/...
+  const visualTestsMatch = normalizedPath.match(/__snapshots__\/visual-tests\/([^/]+)/);
+  if (owner?.testFilePath) {
+    specFile = relative(owner.project.testDir, owner.testFilePath).replace(/\\/g, '/');
+  } else if (owner?.testFileName) {
+    specFile = owner.testFileName;
+  } else if (visualTestsMatch) {
+    specFile = visualTestsMatch[1];
+  } else {
+    // Pattern 2: __snapshots__/specFile/...
+    const snapshotsMatch = normalizedPath.match(/__snapshots__\/([^/]+)/);
+    if (snapshotsMatch) {
+      specFile = snapshotsMatch[1];
+    } else {
+      // Pattern 3: Just use the parent directory name
+      const parts = normalizedPath.split('/');
+      if (parts.length >= 2) {
+        specFile = parts[parts.length - 2];
+      }
+    }
+  }
+  return specFile;
+}
+
+function isShowcaseSnapshot(filename: string): boolean {
+  return basename(filename).toLowerCase().startsWith('showcase');
+}
+
+/**
+ * Opening markup of a gallery group; its tiles go inside `.gallery`
+ */
+function getSnapshotGroupHtml(testFile: string): string {
+  return `
+        <div class="test-group" data-test-file="${testFile}">
+          <h2>
+            ${testFile}
+            <span class="file-badge" onclick="openTestFile('${testFile}')">
+              <svg viewBox="0 0 16 16">
+                <path d="M13.71 4.29l-3-3L10 2h-.59L4 2c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h9c.55 0 1-.45 1-1V5l-.29-.71zM13 13H4V3h5v3h4v7z"/>
+              </svg>
+              Open File
+            </span>
+          </h2>
+          <div class="gallery">
+      `;
+}
+
+/**
+ * Gallery tile for one snapshot, showing its cached thumbnail when there is one
+ */
+function getSnapshotItemHtml(
+  panel: vscode.WebviewPanel,
+  snapshotFile: string,
+  testFile: string,
+  pathPrefixToRemove: string,
+  version?: number
+): { html: string; cached: boolean } {
+  const fileName = basename(snapshotFile);
+  const relativeFilePath = snapshotFile.replace(pathPrefixToRemove, '');
+  
+  // Convert the file path to a webview URI that can be used in the webview;
+  // a version query stops the webview showing a rewritten image from its cache
+  let webviewUri = panel.webview.asWebviewUri(vscode.Uri.file(snapshotFile));
+  if (version !== undefined) {
+    webviewUri = webviewUri.with({ query: `v=${version}` });
+  }
+
+  // Show the cached thumbnail if there is one; the rest are generated after render
+  const thumbnailPath = thumbnailCache.getCached(snapshotFile);
+  const thumbnailUri = thumbnailPath ? panel.webview.asWebviewUri(vscode.Uri.file(thumbnailPath)) : webviewUri;
+  
+  const html = `
+    <div class="gallery-item" data-file-path="${relativeFilePath}" data-full-path="${snapshotFile}" data-webview-uri="${webviewUri}" data-test-file="${testFile}" data-is-showcase="${isShowcaseSnapshot(snapshotFile)}" onclick="openModal('${relativeFilePath}', '${webviewUri}', '${testFile}')">
+      <img src="${thumbnailUri}" class="thumbnail" alt="${fileName}" loading="lazy" />
+      <div class="filename">${fileName}</div>
+    </div>
+  `;
+  return { html, cached: !!thumbnailPath };
+}
+
+/**
+ * Apply file changes to an open snapshot gallery without re-rendering it:
+ * new and rewritten baselines get fresh tiles, deleted ones are removed
+ */
+async function updateSnapshotGallery(
+  panel: vscode.WebviewPanel,
+  workspaceRoot: string,
+  location: SnapshotLocation,
+  allLocations: SnapshotLocation[],
+  changes: SnapshotFileChanges
+) {
+  const inLocation = (file: string) => !relative(location.path, file).startsWith('..');
+  const changed = changes.changed.filter(file => inLocation(file) && existsSync(file));
+  const deleted = changes.deleted.filter(inLocation);
+  if (changed.length === 0 && deleted.length === 0) {
+    return;
+  }
+
+  // Nothing was rendered yet, e.g. the location had no snapshots
+  const rendered = renderedSnapshots.get(panel);
+  if (!rendered) {
+    await loadSnapshotsAndUpdateGallery(panel, workspaceRoot, location, allLocations);
+    return;
+  }
+
+  outputChannel.appendLine(`Snapshot gallery: ${changed.length} changed, ${deleted.length} deleted in ${location.displayName}`);
+  const config = await resolveConfigForFile(location.path);
+  const version = Date.now();
+  const upserted = changed.map(file => {
+    const testFile = getSnapshotTestFile(config, file);
+    const closeGroup = `
+          </div>
+        </div>
+      `;
+    return {
+      path: file,
+      fileName: basename(file),
+      testFile,
+      html: getSnapshotItemHtml(panel, file, testFile, workspaceRoot, version).html,
+      groupHtml: getSnapshotGroupHtml(testFile) + closeGroup,
+    };
+  });
+
+  changed.forEach(file => rendered.add(file));
+  deleted.forEach(file => rendered.delete(file));
+  panel.webview.postMessage({ command: 'snapshotsChanged', upserted, removed: deleted });
+
+  // Thumbnails of rewritten baselines are stale, so regenerate them
+  const job = thumbnailJobs.get(panel) ?? { cancelled: false };
+  thumbnailJobs.set(panel, job);
+  thumbnailCache.generate(changed, (path, thumbnail) => {
+    panel.webview.postMessage({
+      command: 'thumbnailReady',
+      path,
+      uri: panel.webview.asWebviewUri(vscode.Uri.file(thumbnail)).toString()
+    });
+  }, job);
+}
+
 async function loadSnapshotsAndUpdateGallery(
   panel: vscode.WebviewPanel, 
   workspaceRoot: string,
@@ -701,47 +715,24 @@ async function loadSnapshotsAndUpdateGallery(
       snapshotFiles = files.map(f => f.fsPath);
     } else {
       // Search everywhere for snapshots
-      const files = await vscode.workspace.findFiles('**/__snapshots__/**/*.png', '**/node_modules/**');
+      const files = await vscode.workspace.findFiles(getSnapshotImageGlob(), '**/node_modules/**');
       snapshotFiles = files.map(f => f.fsPath);
     }
     
     outputChannel.appendLine(`Found ${snapshotFiles.length} snapshot files`);
     
     if (snapshotFiles.length === 0) {
-      const locationInfo = selectedLocation ? ` in ${selectedLocation.displayName}` : " in __snapshots__ directories";
+      const locationInfo = selectedLocation ? ` in ${selectedLocation.displayName}` : " in snapshot directories";
       vscode.window.showInformationMessage(`No snapshot files found${locationInfo}`);
       return false;
     }
     
     // Group snapshots by test file
     const testFileGroups: Record<string, string[]> = {};
-    
+    const config = selectedLocation && await resolveConfigForFile(selectedLocation.path);
+
     for (const file of snapshotFiles) {
-      // Extract test file name from path (cross-platform)
-      // Normalize path separators for consistent splitting
-      const normalizedPath = file.replace(/\\/g, '/');
-      
-      // Try to extract spec file from path - handle various patterns
-      let specFile = 'Unknown';
-      
-      // Pattern 1: __snapshots__/visual-tests/specFile/...
-      const visualTestsMatch = normalizedPath.match(/__snapshots__\/visual-tests\/([^/]+)/);
-      if (visualTestsMatch) {
-        specFile = visualTestsMatch[1];
-      } else {
-        // Pattern 2: __snapshots__/specFile/...
-        const snapshotsMatch = normalizedPath.match(/__snapshots__\/([^/]+)/);
-        if (snapshotsMatch) {
-          specFile = snapshotsMatch[1];
-        } else {
-          // Pattern 3: Just use the parent directory name
-          const parts = normalizedPath.split('/');
-          if (parts.length >= 2) {
-            specFile = parts[parts.length - 2];
-          }
-        }
-      }
-      
+      const specFile = getSnapshotTestFile(config, file);
       if (!testFileGroups[specFile]) {
         testFileGroups[specFile] = [];
       }
@@ -1166,26 +1157,11 @@ async function loadSnapshotsAndUpdateGallery(
     });
     
     // Add galleries grouped by test file
+    const uncachedThumbnails: string[] = [];
     for (const [testFile, snapshots] of sortedTestFiles) {
       const route = routeMapping[testFile] || getDefaultRoute(testFile);
       
-      htmlContent += `
-        <div class="test-group" data-test-file="${testFile}">
-          <h2>
-            ${testFile}
-            <span class="file-badge" onclick="openTestFile('${testFile}')">
-              <svg viewBox="0 0 16 16">
-                <path d="M13.71 4.29l-3-3L10 2h-.59L4 2c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h9c.55 0 1-.45 1-1V5l-.29-.71zM13 13H4V3h5v3h4v7z"/>
-              </svg>
-              Open File
-            </span>
-          </h2>
-          <div class="gallery">
-      `;
-      
-      // Sort snapshots into regular and showcase categories
-      const isShowcaseSnapshot = (filename: string) => 
-        basename(filename).toLowerCase().startsWith('showcase');
+      htmlContent += getSnapshotGroupHtml(testFile);
       
       // Sort snapshots, putting showcase ones after other files alphabetically
       const sortedSnapshots = [...snapshots].sort((a, b) => {
@@ -1199,20 +1175,21 @@ async function loadSnapshotsAndUpdateGallery(
         // If both are showcase or both are not showcase, sort alphabetically
         return basename(a).localeCompare(basename(b));
       });
+
+      // Baselines of the active project and platform lead each group
+      const rankedSnapshots = config
+        ? baselineSelection.rank(getConfigRoot(config), sortedSnapshots, file => {
+            const owner = findSnapshotOwner(config, file);
+            return { project: owner?.projectName, platform: owner?.platform };
+          })
+        : sortedSnapshots;
       
-      for (const snapshotFile of sortedSnapshots) {
-        const fileName = basename(snapshotFile);
-        const relativeFilePath = snapshotFile.replace(pathPrefixToRemove, '');
-        
-        // Convert the file path to a webview URI that can be used in the webview
-        const webviewUri = panel.webview.asWebviewUri(vscode.Uri.file(snapshotFile));
-        
-        htmlContent += `
-          <div class="gallery-item" data-file-path="${relativeFilePath}" data-full-path="${snapshotFile}" data-webview-uri="${webviewUri}" data-test-file="${testFile}" data-is-showcase="${isShowcaseSnapshot(snapshotFile)}" onclick="openModal('${relativeFilePath}', '${webviewUri}', '${testFile}')">
-            <img src="${webviewUri}" class="thumbnail" alt="${fileName}" />
-            <div class="filename">${fileName}</div>
-          </div>
-        `;
+      for (const snapshotFile of rankedSnapshots) {
+        const item = getSnapshotItemHtml(panel, snapshotFile, testFile, pathPrefixToRemove);
+        if (!item.cached) {
+          uncachedThumbnails.push(snapshotFile);
+        }
+        htmlContent += item.html;
       }
       
       htmlContent += `
@@ -1220,6 +1197,7 @@ async function loadSnapshotsAndUpdateGallery(
         </div>
       `;
     }
+    renderedSnapshots.set(panel, new Set(snapshotFiles.map(file => normalize(file))));
     
     // Add modal for image preview with navigation buttons
     htmlContent += `
@@ -1243,6 +1221,7 @@ async function loadSnapshotsAndUpdateGallery(
             <div class="modal-controls">
               <button class="nav-button nav-button-prev" onclick="navigateImages('prev')" id="prev-button">Previous</button>
               <button class="close-button" onclick="closeModal()">Close</button>
+              <button class="close-button" onclick="compareWithRevision()">Compare with…</button>
               <button class="nav-button nav-button-next" onclick="navigateImages('next')" id="next-button">Next</button>
             </div>
           </div>
@@ -1252,6 +1231,70 @@ async function loadSnapshotsAndUpdateGallery(
         <script>
           // Initialize a connection to the extension host
           const vscode = acquireVsCodeApi();
+
+          // Swap in thumbnails as the extension generates them
+          let itemsByPath;
+          window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'thumbnailReady') {
+              if (!itemsByPath) {
+                itemsByPath = new Map();
+                document.querySelectorAll('.gallery-item').forEach(item => {
+                  itemsByPath.set(item.getAttribute('data-full-path'), item);
+                });
+              }
+              const item = itemsByPath.get(message.path);
+              if (item) {
+                item.querySelector('.thumbnail').src = message.uri;
+              }
+            } else if (message.command === 'snapshotsChanged') {
+              applySnapshotChanges(message);
+            }
+          });
+          
+          // Add, replace and remove tiles as baselines change on disk
+          function applySnapshotChanges(message) {
+            const findItem = path => Array.from(document.querySelectorAll('.gallery-item'))
+              .find(item => item.getAttribute('data-full-path') === path);
+            
+            message.removed.forEach(path => {
+              const item = findItem(path);
+              if (!item) return;
+              const group = item.closest('.test-group');
+              item.remove();
+              if (group && !group.querySelector('.gallery-item')) group.remove();
+            });
+            
+            message.upserted.forEach(change => {
+              const existing = findItem(change.path);
+              if (existing) {
+                existing.outerHTML = change.html;
+                return;
+              }
+              let group = Array.from(document.querySelectorAll('.test-group'))
+                .find(g => g.getAttribute('data-test-file') === change.testFile);
+              if (!group) {
+                document.getElementById('gallery-container').insertAdjacentHTML('beforeend', change.groupHtml);
+                group = document.querySelector('#gallery-container > .test-group:last-child');
+              }
+              // Keep the group's alphabetical order
+              const gallery = group.querySelector('.gallery');
+              const next = Array.from(gallery.querySelectorAll('.gallery-item'))
+                .find(item => item.querySelector('.filename').textContent.localeCompare(change.fileName) > 0);
+              if (next) {
+                next.insertAdjacentHTML('beforebegin', change.html);
+              } else {
+                gallery.insertAdjacentHTML('beforeend', change.html);
+              }
+            });
+            
+            itemsByPath = undefined;
+            // Apply the current search to the new tiles
+            document.getElementById('search-input').dispatchEvent(new Event('input'));
+            if (document.getElementById('image-modal').style.display === 'flex') {
+              updateNavigationButtons();
+            }
+          }
           
           // Switch to a different snapshot location
           function switchLocation(relativePath) {
@@ -1324,6 +1367,17 @@ async function loadSnapshotsAndUpdateGallery(
                </span>\` : '';
           }
           
+          // Diff the open snapshot against another git revision
+          function compareWithRevision() {
+            const item = getAllGalleryItems()[currentImageIndex];
+            if (item) {
+              vscode.postMessage({
+                command: 'compareWithRevision',
+                path: item.getAttribute('data-full-path')
+              });
+            }
+          }
+          
           function closeModal() {
             document.getElementById('image-modal').style.display = 'none';
           }
@@ -1424,6 +1478,24 @@ async function loadSnapshotsAndUpdateGallery(
     `;
     
     panel.webview.html = htmlContent;
+
+    // Generate missing thumbnails in the background, swapping each in as it's ready
+    const previousJob = thumbnailJobs.get(panel);
+    if (previousJob) {
+      previousJob.cancelled = true;
+    }
+    const job = { cancelled: false };
+    thumbnailJobs.set(panel, job);
+    if (uncachedThumbnails.length > 0) {
+      outputChannel.appendLine(`Generating ${uncachedThumbnails.length} thumbnails...`);
+      thumbnailCache.generate(uncachedThumbnails, (path, thumbnail) => {
+        panel.webview.postMessage({
+          command: 'thumbnailReady',
+          path,
+          uri: panel.webview.asWebviewUri(vscode.Uri.file(thumbnail)).toString()
+        });
+      }, job);
+    }
     return true;
   } catch (error: any) {
     outputChannel.appendLine(`Error loading snapshots: ${error}`);
@@ -1453,14 +1525,14 @@ async function openSnapshotGallery() {
     
     if (allLocations.length === 0) {
       quickPick.dispose();
-      vscode.window.showErrorMessage("No __snapshots__ directories with PNG files found in any workspace folder");
+      vscode.window.showErrorMessage("No snapshot directories with PNG files found in any workspace folder");
       return;
     }
     
     // If only one location, auto-select it
     if (allLocations.length === 1) {
       quickPick.dispose();
-      await openGalleryWithSnapshots(allLocations[0], allLocations, allLocations[0].baseDir);
+      await openGalleryWithSnapshots(allLocations[0], allLocations);
       return;
     }
     
@@ -1496,7 +1568,7 @@ async function openSnapshotGallery() {
     }
     
     // Now open the gallery with the selected location
-    await openGalleryWithSnapshots(selectedLocation, allLocations, selectedLocation.baseDir);
+    await openGalleryWithSnapshots(selectedLocation, allLocations);
     
   } catch (error: any) {
     outputChannel.appendLine(`Error opening snapshot gallery: ${error}`);
@@ -1509,8 +1581,7 @@ async function openSnapshotGallery() {
  */
 async function openGalleryWithSnapshots(
   initialLocation: SnapshotLocation,
-  allLocations: SnapshotLocation[],
-  workspaceRoot: string
+  allLocations: SnapshotLocation[]
 ) {
   // Track the currently selected location (mutable)
   let currentLocation = initialLocation;
@@ -1522,6 +1593,7 @@ async function openGalleryWithSnapshots(
   // Also add the selected location's directories
   localResourceRoots.push(vscode.Uri.file(initialLocation.path));
   localResourceRoots.push(vscode.Uri.file(initialLocation.baseDir));
+  localResourceRoots.push(thumbnailCache.directory);
   
   // Create a webview panel
   const panel = vscode.window.createWebviewPanel(
@@ -1546,65 +1618,40 @@ async function openGalleryWithSnapshots(
           try {
             outputChannel.appendLine(`Attempting to open test file: ${message.testFile}`);
             
-            // Get test directory from Playwright config
-            const configPath = await findPlaywrightConfig(workspaceRoot);
-            let testDir = 'tests';
-            
-            if (configPath) {
-              try {
-                const configContent = readFileSync(configPath, "utf8");
-                const testDirMatch = configContent.match(/testDir:\s*['"`](.*?)['"`]/);
-                if (testDirMatch) {
-                  testDir = testDirMatch[1];
-                  outputChannel.appendLine(`Found testDir in config: ${testDir}`);
-                }
-              } catch (error) {
-                // Fallback to default paths if config can't be read
-                outputChannel.appendLine(`Error reading Playwright config: ${error}`);
-              }
+            // Try each project's testDir from the config that owns these snapshots first
+            const config = await resolveConfigForFile(currentLocation.path);
+            const testDirs = Array.from(new Set((config?.projects ?? []).map(p => p.testDir)));
+            if (testDirs.length > 0) {
+              outputChannel.appendLine(`Found testDir(s) in ${config!.configFile}: ${testDirs.join(', ')}`);
             }
-            
-            // Try primary path from config first
-            const testFilePath = join(workspaceRoot, testDir, message.testFile);
-            outputChannel.appendLine(`Trying primary path: ${testFilePath}`);
-            
-            // Fallback paths if primary path doesn't exist
-            const fallbackPaths = [
-              join(workspaceRoot, 'tests', message.testFile),
-              join(workspaceRoot, 'tests/visual', message.testFile),
-              join(workspaceRoot, 'e2e', message.testFile)
-            ];
+            const searchRoot = config
+              ? getConfigRoot(config)
+              : vscode.workspace.getWorkspaceFolder(vscode.Uri.file(currentLocation.path))?.uri.fsPath ?? currentLocation.baseDir;
+            const candidatePaths = testDirs.map(testDir => join(testDir, message.testFile));
             
             // Try to find the file
             let filePath = '';
-            if (existsSync(testFilePath)) {
-              filePath = testFilePath;
-              outputChannel.appendLine(`Found file at primary path: ${filePath}`);
-            } else {
-              // Try fallback paths
-              outputChannel.appendLine('Primary path not found, trying fallbacks...');
-              for (const path of fallbackPaths) {
-                outputChannel.appendLine(`Trying fallback path: ${path}`);
-                if (existsSync(path)) {
-                  filePath = path;
-                  outputChannel.appendLine(`Found file at fallback path: ${filePath}`);
-                  break;
-                }
+            for (const path of candidatePaths) {
+              outputChannel.appendLine(`Trying path: ${path}`);
+              if (existsSync(path)) {
+                filePath = path;
+                outputChannel.appendLine(`Found file at: ${filePath}`);
+                break;
               }
-              
-              // If still not found, use glob as last resort
-              if (!filePath) {
-                outputChannel.appendLine('File not found in standard paths, using glob search...');
-                const pattern = join(workspaceRoot, '**', message.testFile).replace(/\\/g, '/');
-                const files = await glob(pattern);
-                if (files.length > 0) {
-                  filePath = files[0];
-                  outputChannel.appendLine(`Found file with glob: ${filePath}`);
-                } else {
-                  outputChannel.appendLine(`File not found: ${message.testFile}`);
-                  vscode.window.showErrorMessage(`Could not find test file: ${message.testFile}`);
-                  return;
-                }
+            }
+            
+            // If still not found, search the spec files under the config as last resort
+            if (!filePath) {
+              outputChannel.appendLine('File not found in testDir, using glob search...');
+              const pattern = join(searchRoot, '**', message.testFile).replace(/\\/g, '/');
+              const files = (await glob(pattern, { ignore: '**/node_modules/**' })).filter(isTestFilePath);
+              if (files.length > 0) {
+                filePath = files[0];
+                outputChannel.appendLine(`Found file with glob: ${filePath}`);
+              } else {
+                outputChannel.appendLine(`File not found: ${message.testFile}`);
+                vscode.window.showErrorMessage(`Could not find test file: ${message.testFile}`);
+                return;
               }
             }
             
@@ -1619,6 +1666,10 @@ async function openGalleryWithSnapshots(
           }
           break;
           
+        case 'compareWithRevision':
+          await compareSnapshotWithRevision(message.path);
+          break;
+          
         case 'refreshGallery':
           try {
             outputChannel.appendLine(`Refreshing snapshot gallery for: ${currentLocation.displayName}`);
@@ -1627,7 +1678,7 @@ async function openGalleryWithSnapshots(
             panel.webview.html = getSnapshotLoadingHtml("Refreshing Gallery...", "Searching for updated snapshots, please wait...");
             
             // Load and update the gallery with the CURRENT location (not initial)
-            await loadSnapshotsAndUpdateGallery(panel, workspaceRoot, currentLocation, allLocations);
+            await loadSnapshotsAndUpdateGallery(panel, currentLocation.baseDir, currentLocation, allLocations);
             vscode.window.showInformationMessage("Snapshot gallery refreshed successfully.");
           } catch (error) {
             outputChannel.appendLine(`Error refreshing snapshot gallery: ${error}`);
@@ -1652,7 +1703,7 @@ async function openGalleryWithSnapshots(
               panel.webview.html = getSnapshotLoadingHtml("Loading Snapshots...", `Loading snapshots from ${currentLocation.displayName}...`);
               
               // Load and display the new location
-              await loadSnapshotsAndUpdateGallery(panel, workspaceRoot, currentLocation, allLocations);
+              await loadSnapshotsAndUpdateGallery(panel, currentLocation.baseDir, currentLocation, allLocations);
             }
           } catch (error) {
             outputChannel.appendLine(`Error switching snapshot location: ${error}`);
@@ -1665,8 +1716,26 @@ async function openGalleryWithSnapshots(
     []
   );
 
+  // Follow baselines written by runs, reviews or anything else
+  const filesSubscription = onDidChangeSnapshotFiles((changes) =>
+    updateSnapshotGallery(panel, currentLocation.baseDir, currentLocation, allLocations, changes)
+  );
+  // Reorder when a different project or platform is preferred
+  const selectionSubscription = baselineSelection.onDidChange(() =>
+    loadSnapshotsAndUpdateGallery(panel, currentLocation.baseDir, currentLocation, allLocations)
+  );
+  panel.onDidDispose(() => {
+    const job = thumbnailJobs.get(panel);
+    if (job) {
+      job.cancelled = true;
+    }
+    filesSubscription.dispose();
+    selectionSubscription.dispose();
+    renderedSnapshots.delete(panel);
+  });
+
   // Load the snapshots into the gallery
-  await loadSnapshotsAndUpdateGallery(panel, workspaceRoot, currentLocation, allLocations);
+  await loadSnapshotsAndUpdateGallery(panel, currentLocation.baseDir, currentLocation, allLocations);
 }
 
 export function activate(context: vscode.ExtensionContext) {
@@ -1674,47 +1743,77 @@ export function activate(context: vscode.ExtensionContext) {
     log: true,
   });
   context.subscriptions.push(outputChannel);
-  const testCache = new TestCache();
+
+  // playwrightHelpers.* settings, reloaded when they change
+  context.subscriptions.push(initSettings());
+
+  // Resolve playwright.config through Playwright, re-resolving when it changes
+  context.subscriptions.push(initConfigResolver(outputChannel));
+
+  // Notice baselines, test output and reports changing on disk
+  context.subscriptions.push(initSnapshotWatcher(outputChannel));
+
+  // Active project/platform used to rank baselines
+  baselineSelection = new BaselineSelection(context.workspaceState, outputChannel);
+  context.subscriptions.push(baselineSelection);
+
+  // Gallery thumbnails persist across sessions in global storage
+  thumbnailCache = new ThumbnailCache(context.globalStorageUri, outputChannel);
+  context.subscriptions.push(thumbnailCache);
+
+  // Baselines and test output looked up in memory by CodeLenses and views
+  snapshotIndex = new SnapshotIndex(outputChannel);
+  context.subscriptions.push(snapshotIndex);
+
+  // Orphaned snapshots and missing baselines, listed after a scan
+  context.subscriptions.push(
+    new SnapshotHealthView(outputChannel, async () => (await findAllSnapshotDirectories()).map((location) => location.path))
+  );
+
+  const testCache = new TestCache(outputChannel);
   const codeLensProvider = new PlaywrightCodeLensProvider(testCache);
 
-  const selector: vscode.DocumentFilter[] = [
-    { pattern: "**/*.spec.ts" },
-    { pattern: "**/*.test.ts" },
-    { pattern: "**/*.spec.js" },
-    { pattern: "**/*.test.js" },
-    { language: "typescript", pattern: "**/*.spec.ts" },
-    { language: "typescript", pattern: "**/*.test.ts" },
-    { language: "javascript", pattern: "**/*.spec.js" },
-    { language: "javascript", pattern: "**/*.test.js" },
-  ];
-
-  // Register the provider first
+  // Register the provider first, for the configured spec file patterns
+  const registerCodeLenses = () =>
+    vscode.languages.registerCodeLensProvider(
+      getSettings().testFilePatterns.map((pattern): vscode.DocumentFilter => ({ pattern })),
+      codeLensProvider
+    );
+  let codeLensRegistration = registerCodeLenses();
+  context.subscriptions.push(
+    { dispose: () => codeLensRegistration.dispose() },
+    codeLensProvider,
+    onDidChangeSettings(() => {
+      // Files may have started or stopped counting as specs
+      testCache.clearAll();
+      codeLensRegistration.dispose();
+      codeLensRegistration = registerCodeLenses();
+    })
+  );
+
+  // Expose the discovered tests in the Test Explorer
+  const testController = new PlaywrightTestController(testCache, outputChannel, {
+    runPlaywright: runPlaywrightUpdate,
+    findFailedSnapshotFiles,
+  });
+  context.subscriptions.push(testController);
+
+  // Activity-bar tree of projects, specs, tests and their baselines
   context.subscriptions.push(
-    vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
-    codeLensProvider
+    new VisualTestsView(
+      testCache,
+      outputChannel,
+      { runPlaywright: runPlaywrightUpdate, findFailedSnapshotFiles },
+      snapshotIndex
+    )
   );
 
   // Function to find the test at a specific position
-  async function findTestAtPosition(
+  function findTestAtPosition(
     document: vscode.TextDocument,
     position: vscode.Position
-  ): Promise<TestSymbol | undefined> {
-    const text = document.getText();
-    const lines = text.split("\n");
-
-    // Look for test block start, scanning upwards from current position
-    for (let i = position.line; i >= 0; i--) {
-      const testBlock = findTestBlock(lines, i);
-      if (
-        testBlock &&
-        position.line >= testBlock.startLine &&
-        position.line <= testBlock.endLine
-      ) {
-        return new TestSymbol(testBlock.name, testBlock.range);
-      }
-    }
-
-    return undefined;
+  ): TestBlock | undefined {
+    return testCache.findTestAt(document, position);
   }
 
   // Update snapshots for current file
@@ -1789,21 +1888,18 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      let testName = testNameArg;
-      let test: TestSymbol | undefined;
-      if (testName && testLineArg !== undefined) {
+      let test: TestBlock | undefined;
+      if (testNameArg && testLineArg !== undefined) {
         // If we have both name and line (from CodeLens), verify the test still exists there
-        const lines = editor.document.getText().split("\n");
-        const testBlock = findTestBlock(lines, testLineArg);
-        if (testBlock && testBlock.name === testName) {
-          test = new TestSymbol(testBlock.name, testBlock.range);
-        }
+        test = testCache
+          .getTests(editor.document)
+          .find((t) => t.startLine === testLineArg && t.name === testNameArg);
       }
 
       // If we don't have a verified test yet, try to find it at cursor position
       if (!test) {
         const position = editor.selection.active;
-        test = await findTestAtPosition(editor.document, position);
+        test = findTestAtPosition(editor.document, position);
       }
 
       if (!test?.name) {
@@ -1812,25 +1908,58 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const filePath = editor.document.uri.fsPath;
-      runPlaywrightUpdate({path: filePath, testName: test.name, confirm: !initialUpdate});
+      runPlaywrightUpdate({path: filePath, test, confirm: !initialUpdate});
     }
   );
 
   // Show snapshot diff
   let showSnapshotDiff = vscode.commands.registerCommand(
     "playwright-helpers.showSnapshotDiff",
-    async (actual: string, expected: string, diff: string) => {
+    async (
+      actual: string,
+      expected: string,
+      diff?: string,
+      labels: { expected: string; actual: string } = { expected: 'Expected', actual: 'Actual' }
+    ) => {
       const panel = vscode.window.createWebviewPanel(
         'snapshotDiff',
-        'Snapshot Diff',
+        labels.expected === 'Expected' ? 'Snapshot Diff' : `${basename(actual)} (${labels.expected} ↔ ${labels.actual})`,
         vscode.ViewColumn.One,
         { enableScripts: true }
       );
-      
-      // Convert the images to base64
+
+      let comparison: ImageDiffResult | undefined;
+      try {
+        comparison = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Comparing ${basename(expected)}...` },
+          (progress) => {
+            let reported = 0;
+            return diffPngFiles(expected, actual, undefined, (fraction) => {
+              progress.report({ increment: (fraction - reported) * 100 });
+              reported = fraction;
+            });
+          }
+        );
+        outputChannel.appendLine(`Compared ${basename(expected)} with ${basename(actual)}: ${formatDiffSummary(comparison)}`);
+      } catch (error) {
+        outputChannel.appendLine(`Could not compare ${expected} and ${actual}: ${error}`);
+      }
+
+      // Convert the images to base64, computing a diff when Playwright didn't write one
       const actualData = readFileSync(actual).toString('base64');
       const expectedData = readFileSync(expected).toString('base64');
-      const diffData = readFileSync(diff).toString('base64');
+      const diffData = diff && existsSync(diff)
+        ? readFileSync(diff).toString('base64')
+        : comparison && encodePng(comparison.diff).toString('base64');
+
+      // Outline changed regions as percentages so they scale with the image
+      const regionBoxes = comparison?.regions.map((region) => {
+        const left = (region.x / comparison!.width) * 100;
+        const top = (region.y / comparison!.height) * 100;
+        const width = (region.width / comparison!.width) * 100;
+        const height = (region.height / comparison!.height) * 100;
+        return `<div class="region" style="left: ${left}%; top: ${top}%; width: ${width}%; height: ${height}%" title="${region.pixels} pixels at ${region.x},${region.y} (${region.width}×${region.height})"></div>`;
+      }).join('') ?? '';
       
       panel.webview.html = `
         <!DOCTYPE html>
@@ -1970,9 +2099,43 @@ export function activate(context: vscode.ExtensionContext) {
             }
             .before-label { left: 20px; }
             .after-label { right: 20px; }
+
+            /* Comparison summary */
+            .diff-summary {
+              display: flex;
+              align-items: center;
+              gap: 16px;
+              margin-bottom: 20px;
+              padding: 8px 12px;
+              border-radius: 4px;
+              background: var(--vscode-textBlockQuote-background);
+            }
+            .diff-summary label { cursor: pointer; }
+            .region-overlay {
+              position: relative;
+              display: inline-block;
+              max-width: 100%;
+            }
+            .region-overlay img { display: block; }
+            .region {
+              position: absolute;
+              box-sizing: border-box;
+              min-width: 4px;
+              min-height: 4px;
+              border: 2px solid var(--vscode-charts-orange, orange);
+              pointer-events: auto;
+            }
+            body.hide-regions .region { display: none; }
           </style>
         </head>
         <body>
+          ${comparison ? `
+          <div class="diff-summary">
+            <span>${formatDiffSummary(comparison)}</span>
+            ${comparison.antialiasedPixels > 0 ? `<span>${comparison.antialiasedPixels.toLocaleString()} anti-aliased pixels ignored</span>` : ''}
+            ${comparison.regions.length > 0 ? `<label><input type="checkbox" checked onchange="document.body.classList.toggle('hide-regions', !this.checked)" /> Outline changed regions</label>` : ''}
+          </div>
+          ` : ''}
           <div class="tabs">
             <button class="tab active" onclick="showView('side-by-side-view')">Side by Side</button>
             <button class="tab" onclick="showView('slider-view')">Slider Compare</button>
@@ -1981,31 +2144,36 @@ export function activate(context: vscode.ExtensionContext) {
           <div id="side-by-side-view" class="active">
             <div class="side-by-side">
               <div class="image-container">
-                <h3>Expected</h3>
+                <h3>${escapeHtml(labels.expected)}</h3>
                 <img src="data:image/png;base64,${expectedData}" />
               </div>
               <div class="image-container">
-                <h3>Actual</h3>
+                <h3>${escapeHtml(labels.actual)}</h3>
                 <img src="data:image/png;base64,${actualData}" />
               </div>
+              ${diffData ? `
               <div class="image-container">
                 <h3>Diff</h3>
-                <img src="data:image/png;base64,${diffData}" />
+                <div class="region-overlay">
+                  <img src="data:image/png;base64,${diffData}" />
+                  ${regionBoxes}
+                </div>
               </div>
+              ` : ''}
             </div>
           </div>
 
           <div id="slider-view">
-            <h3>Drag to Compare Expected vs Actual</h3>
+            <h3>Drag to Compare ${escapeHtml(labels.expected)} vs ${escapeHtml(labels.actual)}</h3>
             <div class="slider">
               <div class="before">
                 <div class="before-inner">
                   <img src="data:image/png;base64,${expectedData}" class="after" />
                 </div>
-                <span class="slider-label before-label">Expected</span>
+                <span class="slider-label before-label">${escapeHtml(labels.expected)}</span>
               </div>
               <img src="data:image/png;base64,${actualData}" class="after" />
-              <span class="slider-label after-label">Actual</span>
+              <span class="slider-label after-label">${escapeHtml(labels.actual)}</span>
               <div class="handle"></div>
             </div>
           </div>
@@ -2095,6 +2263,46 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Diff any two images, e.g. two baselines selected in the explorer
+  let compareImages = vscode.commands.registerCommand(
+    "playwright-helpers.compareImages",
+    async (uri?: vscode.Uri, selected?: vscode.Uri[]) => {
+      let images = selected && selected.length === 2 ? selected : uri ? [uri] : [];
+
+      while (images.length < 2) {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: images.length === 0,
+          defaultUri: images[0],
+          filters: { Images: ['png'] },
+          openLabel: images.length === 0 ? 'Select Expected Image' : 'Select Actual Image',
+        });
+        if (!picked || picked.length === 0) {
+          return;
+        }
+        images = [...images, ...picked].slice(0, 2);
+      }
+
+      const [expected, actual] = images;
+      await vscode.commands.executeCommand(
+        "playwright-helpers.showSnapshotDiff",
+        actual.fsPath,
+        expected.fsPath
+      );
+    }
+  );
+
+  // Compare a baseline with the same file at another git revision
+  let compareWithRevision = vscode.commands.registerCommand(
+    "playwright-helpers.compareWithRevision",
+    compareSnapshotWithRevision
+  );
+
+  // Pick from every baseline a test owns
+  let viewTestSnapshots = vscode.commands.registerCommand(
+    "playwright-helpers.viewTestSnapshots",
+    showTestSnapshots
+  );
+
   // View Snapshot Gallery
   let viewSnapshotGallery = vscode.commands.registerCommand(
     "playwright-helpers.viewSnapshotGallery",
@@ -2107,23 +2315,91 @@ export function activate(context: vscode.ExtensionContext) {
     () => openTestResultsGallery(outputChannel)
   );
 
+  // Merge the blob reports of a sharded CI run into the failed test gallery
+  let importBlobReports = vscode.commands.registerCommand(
+    "playwright-helpers.importBlobReports",
+    async (uri?: vscode.Uri, selected?: vscode.Uri[]) => {
+      let sources = selected && selected.length > 0 ? selected : uri ? [uri] : [];
+      if (sources.length === 0) {
+        sources = (await vscode.window.showOpenDialog({
+          canSelectMany: true,
+          filters: { 'Blob reports': ['zip'] },
+          openLabel: 'Import Blob Reports',
+        })) ?? [];
+      }
+      if (sources.length === 0) {
+        return;
+      }
+
+      const zipFiles = collectBlobReportFiles(sources.map((source) => source.fsPath));
+      if (zipFiles.length === 0) {
+        vscode.window.showWarningMessage("No blob report zip files found");
+        return;
+      }
+
+      try {
+        const merged = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Merging ${zipFiles.length} blob report(s)...` },
+          () => mergeBlobReports(zipFiles, outputChannel)
+        );
+        const label = `Blob reports (${merged.shards} shard${merged.shards !== 1 ? 's' : ''})`;
+        await openImportedTestResults(merged.reportFile, label, outputChannel);
+      } catch (error) {
+        outputChannel.appendLine(`Error importing blob reports: ${error}`);
+        vscode.window.showErrorMessage(`Failed to import blob reports: ${error}`);
+      }
+    }
+  );
+
+  // Open a downloaded HTML report folder in the failed test gallery
+  let importHtmlReportFolder = vscode.commands.registerCommand(
+    "playwright-helpers.importHtmlReport",
+    async (uri?: vscode.Uri) => {
+      const reportDir = uri?.fsPath ?? (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        openLabel: 'Import HTML Report',
+      }))?.[0]?.fsPath;
+      if (!reportDir) {
+        return;
+      }
+      if (!isHtmlReportFolder(reportDir)) {
+        vscode.window.showWarningMessage(`${basename(reportDir)} is not a Playwright HTML report folder`);
+        return;
+      }
+
+      try {
+        const imported = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: 'Reading HTML report...' },
+          () => importHtmlReport(reportDir, outputChannel)
+        );
+        await openImportedTestResults(imported.reportFile, `HTML report (${basename(reportDir)})`, outputChannel, reportDir);
+      } catch (error) {
+        outputChannel.appendLine(`Error importing HTML report: ${error}`);
+        vscode.window.showErrorMessage(`Failed to import HTML report: ${error}`);
+      }
+    }
+  );
+
   context.subscriptions.push(
     updateFile,
     updateAll,
     updateDir,
     updateSelectedTest,
     showSnapshotDiff,
+    compareImages,
+    compareWithRevision,
+    viewTestSnapshots,
     viewSnapshotGallery,
-    viewVisualTestingReportGallery
+    viewVisualTestingReportGallery,
+    importBlobReports,
+    importHtmlReportFolder
   );
 
   // Debounce the cursor movement handler
   const updateTestContext = debounce(
     async (editor: vscode.TextEditor, position: vscode.Position) => {
-      const tests = testCache.getTests(editor.document);
-      const test = tests.find(
-        (t) => position.line >= t.startLine && position.line <= t.endLine
-      );
+      const test = findTestAtPosition(editor.document, position);
 
       await vscode.commands.executeCommand(
         "setContext",
@@ -2150,7 +2426,7 @@ export function activate(context: vscode.ExtensionContext) {
     async (editor) => {
       if (editor) {
         const position = editor.selection.active;
-        const test = await findTestAtPosition(editor.document, position);
+        const test = findTestAtPosition(editor.document, position);
         await vscode.commands.executeCommand(
           "setContext",
           "playwright-helpers.isInTestBlock",
@@ -2169,30 +2445,74 @@ export function activate(context: vscode.ExtensionContext) {
   );
 }
 
-async function runPlaywrightUpdate({path, testName, confirm}: {path?: string, testName?: string, confirm: boolean}) {
-  let command: string;
-  let confirmMessage: string;
+/**
+ * Options for a Playwright run started from the extension
+ */
+interface PlaywrightRunOptions {
+  /** Spec file or directory to run; the whole project when omitted */
+  path?: string;
+  /** A single test or describe block inside `path` */
+  test?: TestBlock;
+  /** Ask the user before running */
+  confirm: boolean;
+  /** Pass `-u` to rewrite baselines (defaults to true) */
+  updateSnapshots?: boolean;
+  /** Additionally write Playwright's JSON report to this file */
+  jsonOutputFile?: string;
+  /** Cancels the run, e.g. from the Test Explorer */
+  token?: vscode.CancellationToken;
+}
 
-  if (testName && path) {
-    // Update specific test in specific file
-    const escapedTestName = testName.replace(/["']/g, '\\"');
-    command = `npx playwright test "${path}" -u -g "${escapedTestName}"`;
-    confirmMessage = `Are you sure you want to update snapshots for test "${testName}"?`;
-    outputChannel.appendLine(`Updating snapshots for test "${testName}" in ${path}`);
+/**
+ * Run Playwright as a child process. Resolves to undefined when the user
+ * declined the confirmation.
+ */
+async function runPlaywrightUpdate({path, test, confirm, updateSnapshots = true, jsonOutputFile, token}: PlaywrightRunOptions): Promise<PlaywrightRunResult | undefined> {
+  const verb = updateSnapshots ? "Updating snapshots" : "Running tests";
+  const args: string[] = [];
+  let confirmMessage: string;
+  let title: string;
+
+  if (test && path) {
+    // Target exactly one block: file:line picks the declaration, the full
+    // title path guards against other tests declared on the same line
+    const location = `${path}:${test.startLine + 1}`;
+    const grepPattern = getTestGrepPattern(test);
+    args.push(location);
+    if (grepPattern) {
+      args.push("-g", grepPattern);
+    }
+    confirmMessage = `Are you sure you want to update snapshots for ${test.kind} "${test.fullTitle}"?`;
+    title = `${verb} for "${test.fullTitle}"`;
+    outputChannel.appendLine(`${verb} for ${test.kind} "${test.fullTitle}" in ${location}`);
   } else if (path) {
-    // Update all tests in specific file/directory
-    command = `npx playwright test "${path}" -u`;
+    // Run all tests in specific file/directory
+    args.push(path);
     confirmMessage = `Are you sure you want to update all snapshots in "${path}"?`;
-    outputChannel.appendLine(`Updating all snapshots in ${path}`);
+    title = `${verb} in ${basename(path)}`;
+    outputChannel.appendLine(`${verb} in ${path}`);
   } else {
-    // Update all tests in project
-    command = "npx playwright test -u";
+    // Run all tests in project
     confirmMessage = "Are you sure you want to update all snapshots in the project?";
-    outputChannel.appendLine("Updating all snapshots in project");
+    title = `${verb} in project`;
+    outputChannel.appendLine(`${verb} in project`);
+  }
+
+  if (updateSnapshots) {
+    args.push("-u");
   }
 
+  const env: { [key: string]: string } = {};
+  if (jsonOutputFile) {
+    args.push("--reporter=list,json");
+    env.PLAYWRIGHT_JSON_OUTPUT_NAME = jsonOutputFile;
+  }
+
+  // The confirmUpdates setting can skip the question, or keep it for multi-test updates only
+  const askUser = confirm && shouldConfirmUpdates(test?.kind === "test");
+
   let answer: string | undefined;
-  if (confirm) {
+  if (askUser) {
     answer = await vscode.window.showWarningMessage(
       confirmMessage,
       { modal: true },
@@ -2200,14 +2520,39 @@ async function runPlaywrightUpdate({path, testName, confirm}: {path?: string, te
     );
   }
 
-  if (!confirm || answer === 'Yes, Update') {
-    outputChannel.appendLine(`Executing command: ${command}`);
-    const terminal = vscode.window.createTerminal("Playwright Update");
-    terminal.show();
-    terminal.sendText(command);
-  } else {
+  if (askUser && answer !== 'Yes, Update') {
     outputChannel.appendLine('Snapshot update cancelled by user');
+    return undefined;
+  }
+
+  // Run with the config nearest the spec, so each package of a monorepo uses its own
+  const configFile = path ? findNearestPlaywrightConfig(path) : undefined;
+  if (configFile) {
+    args.push("--config", configFile);
   }
+  const workspaceFolder = path
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(path))
+    : vscode.workspace.workspaceFolders?.[0];
+  const cwd = configFile ? dirname(configFile) : workspaceFolder?.uri.fsPath ?? (path ? dirname(path) : process.cwd());
+
+  const result = await executePlaywright(
+    { args, cwd, env, title, token, updateSnapshots },
+    outputChannel
+  );
+
+  if (!result.cancelled && result.exitCode !== 0) {
+    vscode.window
+      .showWarningMessage(`Playwright exited with code ${result.exitCode}`, 'Show Output')
+      .then((choice) => {
+        if (choice === 'Show Output') {
+          outputChannel.show();
+        }
+      });
+  } else if (!result.cancelled && updateSnapshots) {
+    vscode.window.showInformationMessage("Snapshots updated successfully.");
+  }
+
+  return result;
 }
 
 export function deactivate() {}
@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+
+/** Largest file `git show` may return */
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/** How many commits touching the file are offered */
+const RECENT_COMMITS = 20;
+
+/** Where files read from other revisions are written for the diff view */
+const REVISIONS_DIR = join(tmpdir(), "playwright-helpers", "revisions");
+
+/**
+ * A git revision a baseline can be compared against
+ */
+export interface GitRevision {
+  /** Anything `git show <ref>:<path>` accepts */
+  ref: string;
+  label: string;
+}
+
+function git(args: string[], cwd: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, encoding: "buffer", maxBuffer: MAX_BUFFER }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.toString().trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Whether a file is inside a git working tree
+ */
+export async function isInRepository(filePath: string): Promise<boolean> {
+  try {
+    const output = await git(["rev-parse", "--is-inside-work-tree"], dirname(filePath));
+    return output.toString().trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Let the user choose a revision: HEAD, a recent commit that touched the
+ * file, a branch or tag, or any ref typed in
+ */
+export async function pickRevision(filePath: string): Promise<GitRevision | undefined> {
+  const items: Array<vscode.QuickPickItem & { ref?: string }> = [
+    { label: "$(git-commit) HEAD", description: "Last commit", ref: "HEAD" },
+  ];
+
+  try {
+    const log = await git(
+      ["log", `-n${RECENT_COMMITS}`, "--format=%h%x09%ad%x09%s", "--date=short", "--", basename(filePath)],
+      dirname(filePath)
+    );
+    for (const line of log.toString().split("\n").filter(Boolean)) {
+      const [hash, date, subject] = line.split("\t");
+      items.push({ label: `$(git-commit) ${hash}`, description: `${date} ${subject}`, ref: hash });
+    }
+
+    const refs = await git(
+      ["for-each-ref", "--sort=-committerdate", "--format=%(refname)%09%(refname:short)", "refs/heads", "refs/remotes", "refs/tags"],
+      dirname(filePath)
+    );
+    for (const line of refs.toString().split("\n").filter(Boolean)) {
+      const [fullName, ref] = line.split("\t");
+      const icon = fullName.startsWith("refs/tags/") ? "$(tag)" : fullName.startsWith("refs/remotes/") ? "$(cloud)" : "$(git-branch)";
+      items.push({ label: `${icon} ${ref}`, ref });
+    }
+  } catch (error) {
+    vscode.window.showWarningMessage(`Could not list git revisions: ${error}`);
+  }
+
+  items.push({ label: "$(edit) Enter a revision…", description: "Branch, tag, commit or e.g. main~3" });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Compare ${basename(filePath)} with which revision?`,
+    matchOnDescription: true,
+  });
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.ref) {
+    return { ref: selected.ref, label: selected.label.replace(/^\$\([^)]+\)\s*/, "") };
+  }
+
+  const ref = await vscode.window.showInputBox({ prompt: "Git revision to compare with", placeHolder: "origin/main" });
+  return ref?.trim() ? { ref: ref.trim(), label: ref.trim() } : undefined;
+}
+
+/**
+ * Write a file's content at a revision to a temporary file and return its
+ * path. Fails when the file doesn't exist at that revision.
+ */
+export async function exportFileAtRevision(filePath: string, ref: string): Promise<string> {
+  // `./` makes git resolve the path from the file's directory rather than the repository root
+  const content = await git(["show", `${ref}:./${basename(filePath)}`], dirname(filePath));
+
+  const key = createHash("sha1").update(`${ref}\0${filePath}`).digest("hex").slice(0, 16);
+  const dir = join(REVISIONS_DIR, key);
+  mkdirSync(dir, { recursive: true });
+  const revisionPath = join(dir, basename(filePath));
+  writeFileSync(revisionPath, content);
+  return revisionPath;
+}
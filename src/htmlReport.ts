@@ -0,0 +1,156 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import * as os from "os";
+import { isAbsolute, join } from "path";
+import {
+  buildJSONReport,
+  JSONReportAttachment,
+  JSONReportError,
+  JSONReportTest,
+  JSONReportTestResult,
+  JSONReportTestStatus,
+  ReportTestEntry,
+} from "./jsonReport";
+import { findSpecRoot } from "./playwrightConfig";
+import { readZipEntries, ZipEntry } from "./zipArchive";
+
+/**
+ * `report.json` inside the HTML report's embedded zip: a summary listing one
+ * data file per spec file
+ */
+interface HtmlReportSummary {
+  files: Array<{ fileId: string; fileName: string }>;
+  errors?: Array<string | { message: string }>;
+}
+
+/**
+ * `<fileId>.json` inside the embedded zip: every test of one spec file
+ */
+interface HtmlReportFile {
+  fileName: string;
+  tests: HtmlReportTestCase[];
+}
+
+interface HtmlReportTestCase {
+  title: string;
+  /** Titles of the enclosing `describe` blocks */
+  path: string[];
+  projectName: string;
+  location: { file: string; line: number; column: number };
+  outcome: JSONReportTest["status"];
+  results: HtmlReportTestResult[];
+}
+
+interface HtmlReportTestResult {
+  retry: number;
+  startTime?: string;
+  duration: number;
+  status?: JSONReportTestStatus;
+  /** Plain messages in older versions, objects in newer ones */
+  errors: Array<string | { message: string }>;
+  /** Paths are relative to the report folder, e.g. `data/<sha1>.png` */
+  attachments: JSONReportAttachment[];
+}
+
+/**
+ * An HTML report folder read into a JSON report
+ */
+export interface ImportedHtmlReport {
+  /** The JSON report, written to a temporary cache */
+  reportFile: string;
+  tests: number;
+}
+
+/** Older reports assign the data URL to a global, newer ones keep it in a script tag */
+const EMBEDDED_REPORT = /data:application\/zip;base64,([A-Za-z0-9+/=]+)/;
+
+/**
+ * Whether a folder is a Playwright HTML report
+ */
+export function isHtmlReportFolder(dir: string): boolean {
+  const indexFile = join(dir, "index.html");
+  return existsSync(indexFile) && EMBEDDED_REPORT.test(readFileSync(indexFile, "utf8"));
+}
+
+/**
+ * Decode the report data embedded in an HTML report's index.html into a
+ * JSON report the failed test gallery reads. Attachments stay in the
+ * folder's `data` directory; spec paths are mapped onto the workspace
+ * where possible.
+ */
+export async function importHtmlReport(
+  reportDir: string,
+  outputChannel: vscode.OutputChannel
+): Promise<ImportedHtmlReport> {
+  const html = readFileSync(join(reportDir, "index.html"), "utf8");
+  const match = html.match(EMBEDDED_REPORT);
+  if (!match) {
+    throw new Error("No embedded report data in index.html");
+  }
+
+  const entries = new Map<string, ZipEntry>(
+    readZipEntries(Buffer.from(match[1], "base64")).map((entry) => [entry.name, entry])
+  );
+  const readJson = <T>(name: string): T | undefined => {
+    const entry = entries.get(name);
+    return entry && JSON.parse(entry.read().toString("utf8"));
+  };
+
+  const summary = readJson<HtmlReportSummary>("report.json");
+  if (!summary) {
+    throw new Error("No report.json in the embedded report data");
+  }
+
+  const toError = (error: string | { message: string }): JSONReportError => ({
+    message: typeof error === "string" ? error : error.message,
+  });
+
+  const toResult = (result: HtmlReportTestResult): JSONReportTestResult => ({
+    retry: result.retry,
+    startTime: result.startTime,
+    status: result.status,
+    duration: result.duration,
+    errors: (result.errors ?? []).map(toError),
+    attachments: (result.attachments ?? []).map((attachment) =>
+      attachment.path && !isAbsolute(attachment.path)
+        ? { ...attachment, path: join(reportDir, ...attachment.path.split("/")) }
+        : attachment
+    ),
+  });
+
+  const tests: ReportTestEntry[] = [];
+  for (const { fileId } of summary.files) {
+    const file = readJson<HtmlReportFile>(`${fileId}.json`);
+    for (const test of file?.tests ?? []) {
+      tests.push({
+        file: file!.fileName,
+        describePath: test.path ?? [],
+        title: test.title,
+        line: test.location.line,
+        column: test.location.column,
+        test: {
+          projectName: test.projectName,
+          expectedStatus: "passed",
+          status: test.outcome,
+          results: (test.results ?? []).map(toResult).sort((a, b) => a.retry - b.retry),
+        },
+      });
+    }
+  }
+
+  const rootDir =
+    (await findSpecRoot(tests.map((test) => test.file))) ??
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+    reportDir;
+  const report = buildJSONReport(rootDir, tests, (summary.errors ?? []).map(toError));
+
+  const key = createHash("sha1").update(reportDir).digest("hex").slice(0, 16);
+  const cacheDir = join(os.tmpdir(), "playwright-helpers", "html-reports", key);
+  mkdirSync(cacheDir, { recursive: true });
+  const reportFile = join(cacheDir, "report.json");
+  writeFileSync(reportFile, JSON.stringify(report));
+
+  outputChannel.appendLine(`Read ${tests.length} tests from HTML report ${reportDir} into ${reportFile}`);
+  return { reportFile, tests: tests.length };
+}
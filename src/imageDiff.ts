@@ -0,0 +1,391 @@
+import { promises as fs } from "fs";
+import { decodePng, RgbaImage } from "./png";
+
+/** Playwright's default `threshold` for `toHaveScreenshot` */
+export const DEFAULT_DIFF_THRESHOLD = 0.2;
+
+/** Largest possible YIQ delta between two colors */
+const MAX_YIQ_DELTA = 35215;
+
+/** Pixels compared between yields to the event loop */
+const PIXELS_PER_CHUNK = 1 << 16;
+
+/** Changed pixels closer than this many pixels are grouped into one region */
+const REGION_CELL_SIZE = 16;
+
+const MISMATCH_COLOR = [255, 0, 0];
+const ANTIALIASED_COLOR = [255, 255, 0];
+
+export interface ImageDiffOptions {
+  /** Per-pixel color tolerance from 0 to 1; smaller is stricter */
+  threshold?: number;
+  /** Count pixels that look like anti-aliasing as mismatches */
+  includeAntialiasing?: boolean;
+}
+
+/**
+ * Bounding box of one area of changed pixels
+ */
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Mismatched pixels inside the box */
+  pixels: number;
+}
+
+export interface ImageDiffResult {
+  /** Size of the compared area: the larger of the two images */
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  /** Mismatched pixels as a percentage of the compared area */
+  mismatchPercentage: number;
+  /** Differences ignored as anti-aliasing */
+  antialiasedPixels: number;
+  /** Whether the images differ in size. Pixels outside the overlap count as mismatches. */
+  sizeMismatch: boolean;
+  regions: DiffRegion[];
+  /** Faded copy of the expected image with mismatches in red and anti-aliasing in yellow */
+  diff: RgbaImage;
+}
+
+function rgb2y(r: number, g: number, b: number): number {
+  return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+}
+
+function rgb2i(r: number, g: number, b: number): number {
+  return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+}
+
+function rgb2q(r: number, g: number, b: number): number {
+  return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+}
+
+/** Blend a color channel with white by `alpha` (0-1) */
+function blend(channel: number, alpha: number): number {
+  return 255 + (channel - 255) * alpha;
+}
+
+/**
+ * Perceived difference between pixel `i` of `a` and pixel `j` of `b` in YIQ
+ * space, after blending both with white. The sign tells which is brighter;
+ * `yOnly` compares brightness alone.
+ */
+function colorDelta(a: Uint8Array, b: Uint8Array, i: number, j: number, yOnly: boolean): number {
+  let r1 = a[i], g1 = a[i + 1], b1 = a[i + 2];
+  let r2 = b[j], g2 = b[j + 1], b2 = b[j + 2];
+  const a1 = a[i + 3];
+  const a2 = b[j + 3];
+
+  if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) {
+    return 0;
+  }
+
+  if (a1 < 255) {
+    r1 = blend(r1, a1 / 255);
+    g1 = blend(g1, a1 / 255);
+    b1 = blend(b1, a1 / 255);
+  }
+  if (a2 < 255) {
+    r2 = blend(r2, a2 / 255);
+    g2 = blend(g2, a2 / 255);
+    b2 = blend(b2, a2 / 255);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+  if (yOnly) {
+    return y;
+  }
+
+  const iDelta = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const qDelta = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * iDelta * iDelta + 0.1957 * qDelta * qDelta;
+  return y1 > y2 ? -delta : delta;
+}
+
+/**
+ * Whether more than two of a pixel's neighbours are identical to it
+ */
+function hasManySiblings(data: Uint8Array, x1: number, y1: number, width: number, height: number): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      const other = (y * width + x) * 4;
+      if (
+        data[pos] === data[other] &&
+        data[pos + 1] === data[other + 1] &&
+        data[pos + 2] === data[other + 2] &&
+        data[pos + 3] === data[other + 3]
+      ) {
+        zeroes++;
+      }
+      if (zeroes > 2) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a pixel looks like anti-aliasing: it sits on a brightness gradient
+ * whose darkest or brightest neighbour is part of a flat area in both images
+ */
+function isAntialiased(
+  data: Uint8Array,
+  x1: number,
+  y1: number,
+  width: number,
+  height: number,
+  otherData: Uint8Array
+): boolean {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX = 0, minY = 0, maxX = 0, maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      const delta = colorDelta(data, data, pos, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) {
+          return false;
+        }
+      } else if (delta < min) {
+        min = delta;
+        minX = x;
+        minY = y;
+      } else if (delta > max) {
+        max = delta;
+        maxX = x;
+        maxY = y;
+      }
+    }
+  }
+
+  // No darker or no brighter neighbours means this isn't an edge
+  if (min === 0 || max === 0) {
+    return false;
+  }
+
+  return (
+    (hasManySiblings(data, minX, minY, width, height) && hasManySiblings(otherData, minX, minY, width, height)) ||
+    (hasManySiblings(data, maxX, maxY, width, height) && hasManySiblings(otherData, maxX, maxY, width, height))
+  );
+}
+
+/**
+ * Copy an image onto a transparent canvas of the given size
+ */
+function padImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  if (image.width === width && image.height === height) {
+    return image;
+  }
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Group mismatched pixels into regions. Pixels are bucketed into cells, and
+ * touching cells (diagonals included) form one region.
+ */
+function findRegions(mask: Uint8Array, width: number, height: number): DiffRegion[] {
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const cellCount = new Int32Array(columns * rows);
+  const cellMinX = new Int32Array(columns * rows);
+  const cellMinY = new Int32Array(columns * rows);
+  const cellMaxX = new Int32Array(columns * rows);
+  const cellMaxY = new Int32Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) {
+        continue;
+      }
+      const cell = Math.floor(y / REGION_CELL_SIZE) * columns + Math.floor(x / REGION_CELL_SIZE);
+      if (cellCount[cell]++ === 0) {
+        cellMinX[cell] = cellMaxX[cell] = x;
+        cellMinY[cell] = cellMaxY[cell] = y;
+      } else {
+        cellMinX[cell] = Math.min(cellMinX[cell], x);
+        cellMaxX[cell] = Math.max(cellMaxX[cell], x);
+        cellMaxY[cell] = y;
+      }
+    }
+  }
+
+  const regions: DiffRegion[] = [];
+  const visited = new Uint8Array(columns * rows);
+
+  for (let start = 0; start < cellCount.length; start++) {
+    if (!cellCount[start] || visited[start]) {
+      continue;
+    }
+
+    let minX = width, minY = height, maxX = 0, maxY = 0, pixels = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      pixels += cellCount[cell];
+      minX = Math.min(minX, cellMinX[cell]);
+      minY = Math.min(minY, cellMinY[cell]);
+      maxX = Math.max(maxX, cellMaxX[cell]);
+      maxY = Math.max(maxY, cellMaxY[cell]);
+
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      for (let r = Math.max(row - 1, 0); r <= Math.min(row + 1, rows - 1); r++) {
+        for (let c = Math.max(column - 1, 0); c <= Math.min(column + 1, columns - 1); c++) {
+          const neighbour = r * columns + c;
+          if (cellCount[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    regions.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixels });
+  }
+
+  return regions.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Compare two images pixel by pixel the way pixelmatch (and so Playwright)
+ * does: colors are compared in YIQ space against `threshold`, and differences
+ * that look like anti-aliasing are ignored unless asked for. Large images are
+ * compared a chunk of rows at a time, reporting the fraction done after each.
+ */
+export async function diffImages(
+  expected: RgbaImage,
+  actual: RgbaImage,
+  options: ImageDiffOptions = {},
+  onProgress?: (fraction: number) => void
+): Promise<ImageDiffResult> {
+  const threshold = options.threshold ?? DEFAULT_DIFF_THRESHOLD;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const width = Math.max(expected.width, actual.width);
+  const height = Math.max(expected.height, actual.height);
+  const sizeMismatch = expected.width !== actual.width || expected.height !== actual.height;
+  const overlapWidth = Math.min(expected.width, actual.width);
+  const overlapHeight = Math.min(expected.height, actual.height);
+
+  const img1 = padImage(expected, width, height).data;
+  const img2 = padImage(actual, width, height).data;
+  const output = new Uint8Array(width * height * 4);
+  const mask = new Uint8Array(width * height);
+  let mismatchedPixels = 0;
+  let antialiasedPixels = 0;
+
+  const draw = (pos: number, [r, g, b]: number[]) => {
+    output[pos] = r;
+    output[pos + 1] = g;
+    output[pos + 2] = b;
+    output[pos + 3] = 255;
+  };
+
+  const rowsPerChunk = Math.max(1, Math.floor(PIXELS_PER_CHUNK / Math.max(width, 1)));
+  for (let y = 0; y < height; y++) {
+    if (y > 0 && y % rowsPerChunk === 0) {
+      onProgress?.(y / height);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    for (let x = 0; x < width; x++) {
+      const pos = (y * width + x) * 4;
+
+      if (x >= overlapWidth || y >= overlapHeight) {
+        mask[y * width + x] = 1;
+        mismatchedPixels++;
+        draw(pos, MISMATCH_COLOR);
+        continue;
+      }
+
+      const delta = colorDelta(img1, img2, pos, pos, false);
+      if (Math.abs(delta) > maxDelta) {
+        if (
+          !options.includeAntialiasing &&
+          (isAntialiased(img1, x, y, width, height, img2) || isAntialiased(img2, x, y, width, height, img1))
+        ) {
+          antialiasedPixels++;
+          draw(pos, ANTIALIASED_COLOR);
+        } else {
+          mask[y * width + x] = 1;
+          mismatchedPixels++;
+          draw(pos, MISMATCH_COLOR);
+        }
+      } else {
+        // Fade matching pixels so the changes stand out
+        const gray = blend(rgb2y(img1[pos], img1[pos + 1], img1[pos + 2]), (0.1 * img1[pos + 3]) / 255);
+        draw(pos, [gray, gray, gray]);
+      }
+    }
+  }
+
+  const total = width * height;
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    mismatchPercentage: total === 0 ? 0 : (mismatchedPixels / total) * 100,
+    antialiasedPixels,
+    sizeMismatch,
+    regions: findRegions(mask, width, height),
+    diff: { width, height, data: output },
+  };
+}
+
+/**
+ * Decode two PNG files and compare them
+ */
+export async function diffPngFiles(
+  expectedPath: string,
+  actualPath: string,
+  options?: ImageDiffOptions,
+  onProgress?: (fraction: number) => void
+): Promise<ImageDiffResult> {
+  const expected = decodePng(await fs.readFile(expectedPath));
+  const actual = decodePng(await fs.readFile(actualPath));
+  return diffImages(expected, actual, options, onProgress);
+}
+
+/**
+ * One-line description of a comparison, e.g. "1,204 pixels (0.35%) differ in 2 regions"
+ */
+export function formatDiffSummary(result: ImageDiffResult): string {
+  if (result.mismatchedPixels === 0) {
+    return "Images match";
+  }
+  const percentage = result.mismatchPercentage < 0.01 ? "<0.01" : result.mismatchPercentage.toFixed(2);
+  const regions = result.regions.length === 1 ? "1 region" : `${result.regions.length} regions`;
+  const size = result.sizeMismatch ? " (image sizes differ)" : "";
+  return `${result.mismatchedPixels.toLocaleString()} pixels (${percentage}%) differ in ${regions}${size}`;
+}
@@ -0,0 +1,234 @@
+/**
+ * The report written by Playwright's built-in `json` reporter, as far as the
+ * extension reads it. Mirrors `JSONReport` from `@playwright/test/reporter`.
+ */
+export interface JSONReport {
+  config: JSONReportConfig;
+  suites: JSONReportSuite[];
+  /** Errors outside any test, e.g. a spec that failed to load */
+  errors: JSONReportError[];
+  stats?: JSONReportStats;
+}
+
+export interface JSONReportConfig {
+  configFile?: string;
+  /** Spec `file` paths are relative to this directory */
+  rootDir: string;
+  version?: string;
+  projects?: JSONReportProject[];
+}
+
+export interface JSONReportProject {
+  name: string;
+  outputDir: string;
+  testDir: string;
+  retries?: number;
+}
+
+export interface JSONReportStats {
+  startTime: string;
+  duration: number;
+  expected: number;
+  unexpected: number;
+  flaky: number;
+  skipped: number;
+}
+
+/**
+ * A spec file or `describe` block
+ */
+export interface JSONReportSuite {
+  title: string;
+  file: string;
+  line?: number;
+  column?: number;
+  specs: JSONReportSpec[];
+  suites?: JSONReportSuite[];
+}
+
+/**
+ * One `test()` declaration, with a test per project it ran in
+ */
+export interface JSONReportSpec {
+  id?: string;
+  title: string;
+  ok: boolean;
+  tags?: string[];
+  file: string;
+  line: number;
+  column: number;
+  tests: JSONReportTest[];
+}
+
+/**
+ * A spec in one project
+ */
+export interface JSONReportTest {
+  projectName: string;
+  projectId?: string;
+  expectedStatus: JSONReportTestStatus;
+  /** Outcome over every attempt: `flaky` when a retry passed after a failure */
+  status: "expected" | "unexpected" | "flaky" | "skipped";
+  timeout?: number;
+  /** One result per attempt, retries last */
+  results: JSONReportTestResult[];
+}
+
+export type JSONReportTestStatus = "passed" | "failed" | "timedOut" | "skipped" | "interrupted";
+
+/**
+ * One attempt at running a test
+ */
+export interface JSONReportTestResult {
+  /** 0 for the first attempt, 1 for the first retry and so on */
+  retry: number;
+  status?: JSONReportTestStatus;
+  duration: number;
+  startTime?: string;
+  workerIndex?: number;
+  /** First error, kept by older Playwright versions */
+  error?: JSONReportError;
+  errors: JSONReportError[];
+  attachments: JSONReportAttachment[];
+  /** Shard that ran the attempt, in reports merged from blob reports */
+  shard?: JSONReportShard;
+}
+
+export interface JSONReportShard {
+  /** 1-based */
+  current: number;
+  total: number;
+}
+
+export interface JSONReportError {
+  message?: string;
+  stack?: string;
+  value?: string;
+  location?: JSONReportLocation;
+}
+
+export interface JSONReportLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface JSONReportAttachment {
+  name: string;
+  contentType: string;
+  /** Absolute path of a file attachment */
+  path?: string;
+  /** Base64 body of an inline attachment */
+  body?: string;
+}
+
+/**
+ * A spec together with the titles of the suites around it
+ */
+export interface JSONReportSpecEntry {
+  /** Spec file, relative to the config's rootDir */
+  file: string;
+  /** Titles of the enclosing `describe` blocks, outermost first */
+  describePath: string[];
+  spec: JSONReportSpec;
+}
+
+/**
+ * Whether parsed JSON is a report from Playwright's json reporter, as opposed
+ * to some other results format
+ */
+export function isJSONReport(json: unknown): json is JSONReport {
+  const report = json as Partial<JSONReport> | null;
+  return (
+    typeof report === "object" &&
+    report !== null &&
+    typeof report.config === "object" &&
+    report.config !== null &&
+    Array.isArray(report.suites) &&
+    report.suites.every((suite) => Array.isArray(suite?.specs))
+  );
+}
+
+/** Playwright joins a test's describe titles and title with this separator */
+export const TITLE_SEPARATOR = " › ";
+
+/**
+ * Every spec in a report, in report order
+ */
+export function collectReportSpecs(report: JSONReport): JSONReportSpecEntry[] {
+  const entries: JSONReportSpecEntry[] = [];
+
+  // The top-level suites are the spec files themselves
+  const visitSuite = (suite: JSONReportSuite, describePath: string[], file: string) => {
+    for (const spec of suite.specs ?? []) {
+      entries.push({ file: spec.file || file, describePath, spec });
+    }
+    for (const child of suite.suites ?? []) {
+      visitSuite(child, [...describePath, child.title], file);
+    }
+  };
+
+  for (const suite of report.suites) {
+    visitSuite(suite, [], suite.file);
+  }
+  return entries;
+}
+
+/**
+ * Messages of every error in one attempt
+ */
+export function getErrorMessages(result: JSONReportTestResult): string[] {
+  const errors = result.errors?.length ? result.errors : result.error ? [result.error] : [];
+  return errors.map((error) => error.message || error.value || "").filter(Boolean);
+}
+
+/**
+ * A test in one project and where it's declared, for building a report out
+ * of another format
+ */
+export interface ReportTestEntry {
+  /** Spec file relative to the report's rootDir, with forward slashes */
+  file: string;
+  describePath: string[];
+  title: string;
+  line: number;
+  column: number;
+  test: JSONReportTest;
+}
+
+/**
+ * A report nesting tests into file and `describe` suites and specs the way
+ * the json reporter does, with stats counted from the tests' outcomes
+ */
+export function buildJSONReport(rootDir: string, entries: ReportTestEntry[], errors: JSONReportError[] = []): JSONReport {
+  const stats: JSONReportStats = { startTime: "", duration: 0, expected: 0, unexpected: 0, flaky: 0, skipped: 0 };
+  const files = new Map<string, JSONReportSuite>();
+
+  for (const entry of entries) {
+    let suite = files.get(entry.file);
+    if (!suite) {
+      suite = { title: entry.file, file: entry.file, specs: [], suites: [] };
+      files.set(entry.file, suite);
+    }
+    for (const title of entry.describePath) {
+      const parent: JSONReportSuite = suite;
+      let child = parent.suites?.find((candidate) => candidate.title === title);
+      if (!child) {
+        child = { title, file: entry.file, specs: [], suites: [] };
+        parent.suites?.push(child);
+      }
+      suite = child;
+    }
+
+    let spec = suite.specs.find((candidate) => candidate.title === entry.title && candidate.line === entry.line);
+    if (!spec) {
+      spec = { title: entry.title, ok: true, file: entry.file, line: entry.line, column: entry.column, tests: [] };
+      suite.specs.push(spec);
+    }
+    spec.ok = spec.ok && entry.test.status !== "unexpected";
+    spec.tests.push(entry.test);
+    stats[entry.test.status]++;
+  }
+
+  return { config: { rootDir }, suites: [...files.values()], errors, stats };
+}
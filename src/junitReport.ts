@@ -0,0 +1,175 @@
+import * as vscode from "vscode";
+import { dirname, extname, isAbsolute, join } from "path";
+import {
+  buildJSONReport,
+  JSONReport,
+  JSONReportAttachment,
+  JSONReportTestStatus,
+  ReportTestEntry,
+  TITLE_SEPARATOR,
+} from "./jsonReport";
+import { findSpecRoot } from "./playwrightConfig";
+
+/**
+ * An element of a parsed XML document
+ */
+interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XmlElement[];
+  /** Text and CDATA directly inside the element */
+  text: string;
+}
+
+/** Attachment markers Playwright's junit reporter writes to `system-out` */
+const ATTACHMENT_MARKER = /\[\[ATTACHMENT\|(.+?)\]\]/g;
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webm": "video/webm",
+  ".zip": "application/zip",
+  ".txt": "text/plain",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+    }
+    const codePoint = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    // Out-of-range references are malformed; keep them as written
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+/**
+ * Parse the elements, attributes, text and CDATA of an XML document,
+ * skipping the prolog, comments and doctype
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "", attributes: {}, children: [], text: "" };
+  const stack = [root];
+  const token = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml))) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (closing !== undefined) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else if (opening !== undefined) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: "" };
+      for (const [, name, , value] of attributeText.matchAll(/([^\s=]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+        element.attributes[name] = decodeEntities(value);
+      }
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+  return root;
+}
+
+function findElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap((child) => (child.name === name ? [child] : findElements(child, name)));
+}
+
+/**
+ * Whether a file looks like JUnit XML rather than JSON
+ */
+export function isJUnitReportFile(path: string): boolean {
+  return extname(path).toLowerCase() === ".xml";
+}
+
+/**
+ * Read the output of Playwright's junit reporter into a JSON report. Each
+ * `testcase` becomes a test with one attempt, its status taken from the
+ * `failure`, `error` and `skipped` elements and its attachments from the
+ * `[[ATTACHMENT|path]]` markers, which are relative to the XML file.
+ */
+export async function parseJUnitReport(
+  xml: string,
+  reportFile: string,
+  outputChannel: vscode.OutputChannel
+): Promise<JSONReport> {
+  const document = parseXml(xml);
+  const entries: ReportTestEntry[] = [];
+
+  for (const suite of findElements(document, "testsuite")) {
+    // Playwright puts the project name in the suite's hostname
+    const projectName = suite.attributes.hostname ?? "";
+
+    for (const testcase of suite.children.filter((child) => child.name === "testcase")) {
+      const titles = (testcase.attributes.name ?? "").split(TITLE_SEPARATOR);
+      const file = (testcase.attributes.classname || suite.attributes.name || "").replace(/\\/g, "/");
+      const failure = testcase.children.find((child) => child.name === "failure" || child.name === "error");
+      const skipped = testcase.children.some((child) => child.name === "skipped");
+      const status: JSONReportTestStatus = failure ? "failed" : skipped ? "skipped" : "passed";
+
+      // The failure message starts with the test's location, e.g. "example.spec.ts:10:5 has title"
+      const location = failure?.attributes.message?.match(/:(\d+):(\d+)\b/);
+
+      const output = testcase.children
+        .filter((child) => child.name === "system-out" || child.name === "system-err")
+        .map((child) => child.text)
+        .join("\n");
+      const attachments: JSONReportAttachment[] = [...output.matchAll(ATTACHMENT_MARKER)].map(([, path]) => {
+        const absolutePath = isAbsolute(path.trim()) ? path.trim() : join(dirname(reportFile), path.trim());
+        return {
+          name: absolutePath.split(/[\\/]/).pop() ?? absolutePath,
+          path: absolutePath,
+          contentType: CONTENT_TYPES[extname(absolutePath).toLowerCase()] ?? "application/octet-stream",
+        };
+      });
+
+      entries.push({
+        file,
+        describePath: titles.slice(0, -1),
+        title: titles[titles.length - 1],
+        line: location ? Number(location[1]) : 0,
+        column: location ? Number(location[2]) : 0,
+        test: {
+          projectName,
+          expectedStatus: "passed",
+          status: status === "failed" ? "unexpected" : status === "skipped" ? "skipped" : "expected",
+          results: [
+            {
+              retry: 0,
+              status,
+              duration: Math.round(Number(testcase.attributes.time ?? 0) * 1000),
+              errors: failure
+                ? [{ message: failure.text.trim() || failure.attributes.message || failure.attributes.type }]
+                : [],
+              attachments,
+            },
+          ],
+        },
+      });
+    }
+  }
+
+  const rootDir =
+    (await findSpecRoot(entries.map((entry) => entry.file))) ??
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+    dirname(reportFile);
+  outputChannel.appendLine(`Read ${entries.length} test cases from JUnit report ${reportFile}`);
+  return buildJSONReport(rootDir, entries);
+}
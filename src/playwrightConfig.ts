@@ -0,0 +1,342 @@
+import * as vscode from "vscode";
+import { dirname, isAbsolute, join, normalize, relative } from "path";
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import * as os from "os";
+import { glob } from "glob";
+import { killPlaywright, spawnPlaywright } from "./playwrightRunner";
+import { getSettings, onDidChangeSettings } from "./settings";
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/** How long to wait for Playwright to list the config before giving up */
+const RESOLVE_TIMEOUT_MS = 60000;
+
+const CONFIG_FILE_NAMES = ["playwright.config.ts", "playwright.config.js", "playwright.config.mjs", "playwright.config.cjs"];
+const CONFIG_FILE_GLOB = "**/playwright.config.{ts,js,mjs,cjs}";
+
+/**
+ * A Playwright project as resolved by Playwright itself
+ */
+export interface ResolvedProject {
+  name: string;
+  /** Absolute test directory */
+  testDir: string;
+  /** Absolute output directory (test-results by default) */
+  outputDir: string;
+  /** Absolute snapshot directory (testDir by default) */
+  snapshotDir: string;
+  /** Raw `snapshotPathTemplate` from the project or top-level config */
+  snapshotPathTemplate?: string;
+  /** Browser the project runs in, when configured */
+  browserName?: string;
+}
+
+/**
+ * A playwright.config file as resolved by Playwright itself
+ */
+export interface ResolvedPlaywrightConfig {
+  configFile: string;
+  rootDir: string;
+  /** `[name, options]` for each configured reporter */
+  reporters: Array<[string, any]>;
+  projects: ResolvedProject[];
+}
+
+const cache = new Map<string, Promise<ResolvedPlaywrightConfig | undefined>>();
+
+/** Every config file in the workspace, listed once until one is added or removed */
+let configFiles: Promise<string[]> | undefined;
+
+const configChanged = new vscode.EventEmitter<string>();
+
+/**
+ * Fires with the config file's path whenever a playwright.config file is
+ * created, changed or deleted
+ */
+export const onDidChangePlaywrightConfig: vscode.Event<string> = configChanged.event;
+
+/**
+ * Start watching playwright.config files so resolved configs are dropped
+ * from the cache whenever one changes
+ */
+export function initConfigResolver(providedOutputChannel: vscode.OutputChannel): vscode.Disposable {
+  outputChannel = providedOutputChannel;
+
+  const watcher = vscode.workspace.createFileSystemWatcher(CONFIG_FILE_GLOB);
+  const invalidate = (uri: vscode.Uri) => {
+    if (cache.delete(normalize(uri.fsPath))) {
+      outputChannel?.appendLine(`Playwright config changed, dropping cached config: ${uri.fsPath}`);
+    }
+    configChanged.fire(uri.fsPath);
+  };
+  const relist = (uri: vscode.Uri) => {
+    configFiles = undefined;
+    invalidate(uri);
+  };
+
+  // A different command or environment may resolve configs that failed before
+  const describeCommand = () => JSON.stringify([getSettings().testCommand, getSettings().env]);
+  let command = describeCommand();
+
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidChange(invalidate),
+    watcher.onDidCreate(relist),
+    watcher.onDidDelete(relist),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      configFiles = undefined;
+    }),
+    onDidChangeSettings(() => {
+      if (describeCommand() !== command) {
+        command = describeCommand();
+        [...cache.keys()].forEach((configFile) => invalidate(vscode.Uri.file(configFile)));
+      }
+    }),
+    // Configs read with the static defaults can now be resolved by Playwright
+    vscode.workspace.onDidGrantWorkspaceTrust(async () => {
+      (await findAllPlaywrightConfigs()).forEach((configFile) => invalidate(vscode.Uri.file(configFile)));
+    })
+  );
+}
+
+/**
+ * Find the Playwright config file in the workspace
+ */
+export async function findPlaywrightConfig(workspaceRoot: string): Promise<string | undefined> {
+  const configFile = findConfigInDir(workspaceRoot);
+  if (configFile) {
+    return configFile;
+  }
+
+  // If not found in root, try to find it with glob
+  // Normalize path for glob (prefers forward slashes even on Windows)
+  const configPattern = join(workspaceRoot, "**/playwright.config.{ts,js,mjs,cjs}").replace(/\\/g, '/');
+  const configPaths = await glob(configPattern, { ignore: "**/node_modules/**" });
+  return configPaths.length > 0 ? configPaths[0] : undefined;
+}
+
+/**
+ * Find the playwright.config nearest to a file, walking up from its directory
+ * to the workspace folder containing it
+ */
+export function findNearestPlaywrightConfig(filePath: string): string | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+  let dir = dirname(normalize(filePath));
+  while (true) {
+    const configFile = findConfigInDir(dir);
+    if (configFile) {
+      return configFile;
+    }
+    const parent = dirname(dir);
+    if (parent === dir || (folder && normalize(dir) === normalize(folder))) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+function findConfigInDir(dir: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(dir, name)).find((configFile) => existsSync(configFile));
+}
+
+/**
+ * Every playwright.config in every workspace folder; a folder may hold
+ * several, e.g. one per package of a monorepo
+ */
+export function findAllPlaywrightConfigs(): Promise<string[]> {
+  if (!configFiles) {
+    configFiles = Promise.resolve(vscode.workspace.findFiles(CONFIG_FILE_GLOB, "**/node_modules/**")).then((uris) =>
+      uris.map((uri) => normalize(uri.fsPath)).sort()
+    );
+  }
+  return configFiles;
+}
+
+/**
+ * Resolve every playwright.config in the workspace, skipping the ones
+ * Playwright couldn't load
+ */
+export async function resolveAllConfigs(): Promise<ResolvedPlaywrightConfig[]> {
+  const configs = await Promise.all((await findAllPlaywrightConfigs()).map((configFile) => resolvePlaywrightConfig(configFile)));
+  return configs.filter((config): config is ResolvedPlaywrightConfig => !!config);
+}
+
+/**
+ * The local directory that spec paths from a report written elsewhere, e.g.
+ * on CI, are relative to: the first config root, test directory, config
+ * directory or workspace folder containing one of the specs
+ */
+export async function findSpecRoot(relativeFiles: string[]): Promise<string | undefined> {
+  const candidates = new Set<string>();
+  for (const config of await resolveAllConfigs()) {
+    candidates.add(config.rootDir);
+    config.projects.forEach((project) => candidates.add(project.testDir));
+  }
+  (await findAllPlaywrightConfigs()).forEach((configFile) => candidates.add(dirname(configFile)));
+  (vscode.workspace.workspaceFolders ?? []).forEach((folder) => candidates.add(folder.uri.fsPath));
+
+  return [...candidates].find((dir) => relativeFiles.some((file) => existsSync(join(dir, ...file.split("/")))));
+}
+
+/**
+ * Resolve the config a test, snapshot or output file belongs to: the nearest
+ * playwright.config above it, or else the config whose directories contain it
+ */
+export async function resolveConfigForFile(filePath: string): Promise<ResolvedPlaywrightConfig | undefined> {
+  const configFile = findNearestPlaywrightConfig(filePath);
+  if (configFile) {
+    return resolvePlaywrightConfig(configFile);
+  }
+  return (await resolveAllConfigs()).find((config) =>
+    config.projects.some((project) =>
+      [project.testDir, project.snapshotDir, project.outputDir].some((dir) => isInsideDir(filePath, dir))
+    )
+  );
+}
+
+/**
+ * Directory of the config file, which keys per-config state
+ */
+export function getConfigRoot(config: ResolvedPlaywrightConfig): string {
+  return dirname(config.configFile);
+}
+
+/**
+ * Resolve a config file through the project's own Playwright. Results
+ * (including failures) are cached until the config file changes.
+ *
+ * Resolving runs the config file, so untrusted workspaces get Playwright's
+ * defaults for a config in that directory instead.
+ */
+export function resolvePlaywrightConfig(configFile: string): Promise<ResolvedPlaywrightConfig | undefined> {
+  const key = normalize(configFile);
+  if (!vscode.workspace.isTrusted) {
+    return Promise.resolve(getDefaultConfig(key));
+  }
+  let resolved = cache.get(key);
+  if (!resolved) {
+    resolved = loadResolvedConfig(key);
+    cache.set(key, resolved);
+  }
+  return resolved;
+}
+
+/**
+ * What Playwright resolves a config without options to: one unnamed project
+ * testing the config's directory
+ */
+function getDefaultConfig(configFile: string): ResolvedPlaywrightConfig {
+  const dir = dirname(configFile);
+  return {
+    configFile,
+    rootDir: dir,
+    reporters: [],
+    projects: [{ name: "", testDir: dir, outputDir: join(dir, getSettings().outputDirectory), snapshotDir: dir }],
+  };
+}
+
+/**
+ * Find and resolve the Playwright config for a workspace root
+ */
+export async function resolveWorkspaceConfig(workspaceRoot: string): Promise<ResolvedPlaywrightConfig | undefined> {
+  const configFile = await findPlaywrightConfig(workspaceRoot);
+  return configFile ? resolvePlaywrightConfig(configFile) : undefined;
+}
+
+/**
+ * Projects whose testDir contains the given file, falling back to all projects
+ */
+export function getProjectsForFile(config: ResolvedPlaywrightConfig, filePath: string): ResolvedProject[] {
+  const matching = config.projects.filter((project) => isInsideDir(filePath, project.testDir));
+  return matching.length > 0 ? matching : config.projects;
+}
+
+function isInsideDir(filePath: string, dir: string): boolean {
+  const rel = relative(normalize(dir), normalize(filePath));
+  return !!rel && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+/**
+ * Run `playwright test --list` with the config reporter and read what it wrote
+ */
+function loadResolvedConfig(configFile: string): Promise<ResolvedPlaywrightConfig | undefined> {
+  const outputFile = join(os.tmpdir(), `playwright-helpers-config-${process.pid}-${Date.now()}.json`);
+  const reporterPath = join(__dirname, "configReporter.js");
+  const cwd = dirname(configFile);
+
+  outputChannel?.appendLine(`Resolving Playwright config: ${configFile}`);
+
+  return new Promise((resolve) => {
+    const child = spawnPlaywright(
+      ["--config", configFile, "--list", `--reporter=${reporterPath}`],
+      cwd,
+      { PLAYWRIGHT_HELPERS_CONFIG_OUTPUT: outputFile }
+    );
+
+    let stderr = "";
+    child.stderr?.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    const timeout = setTimeout(() => {
+      outputChannel?.appendLine(`Timed out resolving Playwright config: ${configFile}`);
+      killPlaywright(child);
+    }, RESOLVE_TIMEOUT_MS);
+
+    // A child that fails to start emits both `error` and `close`
+    let settled = false;
+    const finish = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      if (!existsSync(outputFile)) {
+        outputChannel?.appendLine(`Could not resolve Playwright config ${configFile}: ${stderr.trim() || "no output"}`);
+        resolve(undefined);
+        return;
+      }
+
+      try {
+        const raw = JSON.parse(readFileSync(outputFile, "utf8"));
+        const config: ResolvedPlaywrightConfig = {
+          configFile,
+          rootDir: normalize(raw.rootDir || cwd),
+          reporters: raw.reporters || [],
+          projects: (raw.projects || []).map((project: any) => ({
+            name: project.name || "",
+            testDir: normalize(project.testDir),
+            outputDir: normalize(project.outputDir),
+            snapshotDir: normalize(project.snapshotDir || project.testDir),
+            snapshotPathTemplate: project.snapshotPathTemplate,
+            browserName: project.browserName,
+          })),
+        };
+        if (raw.reportersUnavailable) {
+          outputChannel?.appendLine(
+            `Warning: could not read the reporters of ${configFile}; add their output files to playwrightHelpers.resultsFiles`
+          );
+        }
+        outputChannel?.appendLine(
+          `Resolved Playwright config with ${config.projects.length} project(s): ${config.projects.map((p) => p.name || "(default)").join(", ")}`
+        );
+        resolve(config);
+      } catch (error) {
+        outputChannel?.appendLine(`Error reading resolved Playwright config: ${error}`);
+        resolve(undefined);
+      } finally {
+        try {
+          unlinkSync(outputFile);
+        } catch {
+          // Already gone
+        }
+      }
+    };
+
+    child.on("error", (error) => {
+      outputChannel?.appendLine(`Failed to start Playwright to resolve config: ${error}`);
+      finish();
+    });
+    child.on("close", finish);
+  });
+}
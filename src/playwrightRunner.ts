@@ -0,0 +1,162 @@
+import * as vscode from "vscode";
+import { ChildProcess, spawn } from "child_process";
+import { getSettings, getTestCommand } from "./settings";
+
+/**
+ * A Playwright invocation started by the extension
+ */
+export interface PlaywrightRunRequest {
+  /** Arguments passed after the test command (`npx playwright test` by default) */
+  args: string[];
+  /** Directory to run in, normally the project holding playwright.config */
+  cwd: string;
+  /** Extra environment variables for the run */
+  env?: { [key: string]: string };
+  /** Title of the progress notification */
+  title: string;
+  /** Cancels the run in addition to the notification's cancel button */
+  token?: vscode.CancellationToken;
+  /** Whether the run rewrites baselines (`-u`) */
+  updateSnapshots: boolean;
+}
+
+/**
+ * Outcome of a finished Playwright run
+ */
+export interface PlaywrightRunResult {
+  request: PlaywrightRunRequest;
+  /** Process exit code, null when it was killed */
+  exitCode: number | null;
+  cancelled: boolean;
+}
+
+const runCompleted = new vscode.EventEmitter<PlaywrightRunResult>();
+
+/**
+ * Fires after every Playwright run finishes, so CodeLenses and galleries can refresh
+ */
+export const onDidCompletePlaywrightRun: vscode.Event<PlaywrightRunResult> = runCompleted.event;
+
+/**
+ * Quote an argument for cmd.exe
+ */
+function quoteWindowsArg(arg: string): string {
+  return /[\s"&|<>^]/.test(arg) ? `"${arg.replace(/"/g, '""')}"` : arg;
+}
+
+/**
+ * Remove terminal colour and cursor escape sequences from Playwright output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, "");
+}
+
+/**
+ * The configured test command followed by the given arguments, for logging
+ */
+function describePlaywrightCommand(args: string[]): string {
+  return [getSettings().testCommand, ...args].join(" ");
+}
+
+/**
+ * Spawn the configured test command (`npx playwright test` by default) with
+ * `<args>`, without a shell on POSIX. Windows needs cmd.exe to resolve
+ * `.cmd` shims like npx.cmd, so arguments are quoted for it there.
+ */
+export function spawnPlaywright(
+  args: string[],
+  cwd: string,
+  env?: { [key: string]: string }
+): ChildProcess {
+  const isWindows = process.platform === "win32";
+  const command = getTestCommand();
+  const fullArgs = [...command.args, ...args];
+  return spawn(
+    isWindows && command.executable === "npx" ? "npx.cmd" : command.executable,
+    isWindows ? fullArgs.map(quoteWindowsArg) : fullArgs,
+    {
+      cwd,
+      env: { ...process.env, FORCE_COLOR: "0", ...getSettings().env, ...env },
+      shell: isWindows,
+    }
+  );
+}
+
+/**
+ * Kill a Playwright process and, on Windows, the node process behind cmd.exe
+ */
+export function killPlaywright(child: ChildProcess) {
+  if (process.platform === "win32" && child.pid) {
+    spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"]);
+  } else {
+    child.kill("SIGTERM");
+  }
+}
+
+/**
+ * Run the test command as a child process with the configured extra
+ * arguments, streaming its output to the output channel behind a cancellable
+ * progress notification
+ */
+export function executePlaywright(
+  request: PlaywrightRunRequest,
+  outputChannel: vscode.OutputChannel
+): Thenable<PlaywrightRunResult> {
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: request.title,
+      cancellable: true,
+    },
+    (_progress, progressToken) =>
+      new Promise<PlaywrightRunResult>((resolve) => {
+        const args = [...request.args, ...getSettings().extraArgs];
+        outputChannel.appendLine(`Executing: ${describePlaywrightCommand(args)} (in ${request.cwd})`);
+        outputChannel.show(true);
+
+        const child = spawnPlaywright(args, request.cwd, request.env);
+
+        let cancelled = false;
+        const cancel = () => {
+          if (cancelled || child.exitCode !== null) {
+            return;
+          }
+          cancelled = true;
+          outputChannel.appendLine("Cancelling Playwright run...");
+          killPlaywright(child);
+        };
+
+        const subscriptions = [
+          progressToken.onCancellationRequested(cancel),
+          ...(request.token ? [request.token.onCancellationRequested(cancel)] : []),
+        ];
+
+        child.stdout?.on("data", (data: Buffer) => outputChannel.append(stripAnsi(data.toString())));
+        child.stderr?.on("data", (data: Buffer) => outputChannel.append(stripAnsi(data.toString())));
+
+        let settled = false;
+        const settle = (exitCode: number | null) => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          subscriptions.forEach((s) => s.dispose());
+
+          const result: PlaywrightRunResult = { request, exitCode, cancelled };
+          outputChannel.appendLine(
+            cancelled
+              ? "Playwright run cancelled"
+              : `Playwright exited with code ${exitCode}`
+          );
+          runCompleted.fire(result);
+          resolve(result);
+        };
+
+        child.on("error", (error) => {
+          outputChannel.appendLine(`Failed to start Playwright: ${error}`);
+          settle(null);
+        });
+        child.on("close", (code) => settle(code));
+      })
+  );
+}
@@ -0,0 +1,345 @@
+import { deflateSync, inflateSync } from "zlib";
+
+/**
+ * An image as 8-bit RGBA pixels, row by row
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** Samples per pixel for each PNG color type */
+const CHANNELS: { [colorType: number]: number } = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Adam7 passes as [x0, y0, dx, dy] */
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Reverse the per-row filters of one (sub)image, returning its raw scanlines
+ */
+function unfilter(
+  data: Buffer,
+  offset: number,
+  rowBytes: number,
+  height: number,
+  bytesPerPixel: number
+): { pixels: Uint8Array; next: number } {
+  const pixels = new Uint8Array(rowBytes * height);
+  let pos = offset;
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[pos++];
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[pos++];
+      const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? pixels[prev + x - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + ((left + up) >> 1);
+          break;
+        case 4:
+          value = raw + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unknown PNG filter type ${filter}`);
+      }
+      pixels[row + x] = value & 0xff;
+    }
+  }
+
+  return { pixels, next: pos };
+}
+
+/**
+ * Decode a PNG into 8-bit RGBA. Handles every color type, bit depth and
+ * Adam7 interlacing; 16-bit samples are reduced to 8 bits.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let header: PngHeader | undefined;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("ascii", pos + 4, pos + 8);
+    const chunk = buffer.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+
+    if (type === "IHDR") {
+      header = {
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header || CHANNELS[header.colorType] === undefined) {
+    throw new Error("Unsupported or missing PNG header");
+  }
+
+  const { width, height, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const inflated = inflateSync(Buffer.concat(idat));
+  const data = new Uint8Array(width * height * 4);
+
+  // Read sample `index` of a scanline at any bit depth
+  const readSample = (pixels: Uint8Array, rowStart: number, index: number): number => {
+    if (bitDepth === 8) {
+      return pixels[rowStart + index];
+    }
+    if (bitDepth === 16) {
+      return (pixels[rowStart + index * 2] << 8) | pixels[rowStart + index * 2 + 1];
+    }
+    const bit = index * bitDepth;
+    const byte = pixels[rowStart + (bit >> 3)];
+    return (byte >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8Bit = (sample: number) =>
+    bitDepth === 8 ? sample : bitDepth === 16 ? sample >> 8 : Math.round((sample * 255) / maxSample);
+
+  const transparentGray = colorType === 0 && transparency ? transparency.readUInt16BE(0) : -1;
+  const transparentRgb =
+    colorType === 2 && transparency
+      ? [transparency.readUInt16BE(0), transparency.readUInt16BE(2), transparency.readUInt16BE(4)]
+      : undefined;
+
+  const writePixel = (pixels: Uint8Array, rowStart: number, x: number, target: number) => {
+    const s = x * channels;
+    switch (colorType) {
+      case 0: {
+        const gray = readSample(pixels, rowStart, s);
+        data[target] = data[target + 1] = data[target + 2] = to8Bit(gray);
+        data[target + 3] = gray === transparentGray ? 0 : 255;
+        break;
+      }
+      case 2: {
+        const r = readSample(pixels, rowStart, s);
+        const g = readSample(pixels, rowStart, s + 1);
+        const b = readSample(pixels, rowStart, s + 2);
+        data[target] = to8Bit(r);
+        data[target + 1] = to8Bit(g);
+        data[target + 2] = to8Bit(b);
+        data[target + 3] =
+          transparentRgb && r === transparentRgb[0] && g === transparentRgb[1] && b === transparentRgb[2] ? 0 : 255;
+        break;
+      }
+      case 3: {
+        const index = readSample(pixels, rowStart, s);
+        data[target] = palette ? palette[index * 3] : 0;
+        data[target + 1] = palette ? palette[index * 3 + 1] : 0;
+        data[target + 2] = palette ? palette[index * 3 + 2] : 0;
+        data[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4: {
+        const gray = to8Bit(readSample(pixels, rowStart, s));
+        data[target] = data[target + 1] = data[target + 2] = gray;
+        data[target + 3] = to8Bit(readSample(pixels, rowStart, s + 1));
+        break;
+      }
+      case 6:
+        for (let c = 0; c < 4; c++) {
+          data[target + c] = to8Bit(readSample(pixels, rowStart, s + c));
+        }
+        break;
+    }
+  };
+
+  const passes = header.interlace === 1 ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const { pixels, next } = unfilter(inflated, offset, rowBytes, passHeight, bytesPerPixel);
+    offset = next;
+
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        writePixel(pixels, y * rowBytes, x, ((y0 + y * dy) * width + x0 + x * dx) * 4);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * Encode an RGBA image as an 8-bit truecolor+alpha PNG
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const rowBytes = width * 4;
+  const raw = Buffer.alloc((rowBytes + 1) * height);
+
+  // The Sub filter compresses flat UI screenshots well
+  for (let y = 0; y < height; y++) {
+    const out = y * (rowBytes + 1);
+    const row = y * rowBytes;
+    raw[out] = 1;
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= 4 ? data[row + x - 4] : 0;
+      raw[out + 1 + x] = (data[row + x] - left) & 0xff;
+    }
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk("IHDR", ihdr),
+    createChunk("IDAT", deflateSync(raw)),
+    createChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Shrink an image to fit within the given box using an alpha-weighted box
+ * filter. Images that already fit are returned unchanged.
+ */
+export function downscaleImage(image: RgbaImage, maxWidth: number, maxHeight: number): RgbaImage {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  if (scale >= 1) {
+    return image;
+  }
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8Array(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y * yRatio);
+    const sy1 = Math.max(sy0 + 1, Math.floor((y + 1) * yRatio));
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x * xRatio);
+      const sx1 = Math.max(sx0 + 1, Math.floor((x + 1) * xRatio));
+
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3];
+          r += image.data[i] * alpha;
+          g += image.data[i + 1] * alpha;
+          b += image.data[i + 2] * alpha;
+          a += alpha;
+          count++;
+        }
+      }
+
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        data[o] = Math.round(r / a);
+        data[o + 1] = Math.round(g / a);
+        data[o + 2] = Math.round(b / a);
+      }
+      data[o + 3] = Math.round(a / count);
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,179 @@
+import * as vscode from "vscode";
+import { dirname, join, relative } from "path";
+
+const SECTION = "playwrightHelpers";
+
+/** Asks before updating snapshots: always, only for more than one test, or never */
+export type ConfirmUpdatesPolicy = "always" | "multipleTests" | "never";
+
+/**
+ * The extension's settings, with defaults applied
+ */
+export interface PlaywrightHelpersSettings {
+  /** Globs matching snapshot directories (any `__snapshots__` folder by default) */
+  snapshotDirectories: string[];
+  /** Output directory, relative to the config, used when the config can't be resolved */
+  outputDirectory: string;
+  /** Globs matching JSON test results files */
+  resultsFiles: string[];
+  /** Command that runs Playwright tests, e.g. `npx playwright test` */
+  testCommand: string;
+  /** Arguments appended to every test run */
+  extraArgs: string[];
+  /** Environment variables for every Playwright process */
+  env: { [key: string]: string };
+  /** Globs matching spec files */
+  testFilePatterns: string[];
+  confirmUpdates: ConfirmUpdatesPolicy;
+}
+
+let current: PlaywrightHelpersSettings | undefined;
+
+const settingsChanged = new vscode.EventEmitter<PlaywrightHelpersSettings>();
+
+/**
+ * Fires with the new settings whenever a `playwrightHelpers.*` setting changes
+ */
+export const onDidChangeSettings: vscode.Event<PlaywrightHelpersSettings> = settingsChanged.event;
+
+function readSettings(): PlaywrightHelpersSettings {
+  const config = vscode.workspace.getConfiguration(SECTION);
+  const strings = (key: string, fallback: string[]) => {
+    const value = config.get<unknown>(key);
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && !!item) : fallback;
+  };
+
+  return {
+    snapshotDirectories: strings("snapshotDirectories", ["**/__snapshots__"]),
+    outputDirectory: config.get<string>("outputDirectory") || "test-results",
+    resultsFiles: strings("resultsFiles", [
+      "**/test-results.json",
+      "**/test-results/results.json",
+      "**/playwright-report/results.json",
+    ]),
+    testCommand: config.get<string>("testCommand")?.trim() || "npx playwright test",
+    extraArgs: strings("extraArgs", []),
+    env: Object.fromEntries(
+      Object.entries(config.get<{ [key: string]: unknown }>("env") ?? {})
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    ),
+    testFilePatterns: strings("testFilePatterns", ["**/*.{spec,test}.{ts,js,mjs,cjs}"]),
+    confirmUpdates: config.get<ConfirmUpdatesPolicy>("confirmUpdates") ?? "always",
+  };
+}
+
+/**
+ * Start following setting changes
+ */
+export function initSettings(): vscode.Disposable {
+  current = readSettings();
+  return vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration(SECTION)) {
+      current = readSettings();
+      settingsChanged.fire(current);
+    }
+  });
+}
+
+/**
+ * The current settings
+ */
+export function getSettings(): PlaywrightHelpersSettings {
+  current ??= readSettings();
+  return current;
+}
+
+/**
+ * Whether the confirmUpdates setting asks before updating snapshots, which
+ * `multipleTests` only does for files, directories and the whole project
+ */
+export function shouldConfirmUpdates(singleTest: boolean): boolean {
+  const policy = getSettings().confirmUpdates;
+  return policy === "always" || (policy === "multipleTests" && !singleTest);
+}
+
+/**
+ * One glob matching every spec file, for file searches and watchers
+ */
+export function getTestFileGlob(): string {
+  const { testFilePatterns } = getSettings();
+  return testFilePatterns.length === 1 ? testFilePatterns[0] : `{${testFilePatterns.join(",")}}`;
+}
+
+/**
+ * One glob matching every PNG inside a snapshot directory
+ */
+export function getSnapshotImageGlob(): string {
+  const images = getSettings().snapshotDirectories.map((dir) => `${dir.replace(/\/+$/, "")}/**/*.png`);
+  return images.length === 1 ? images[0] : `{${images.join(",")}}`;
+}
+
+/**
+ * Split the test command into the executable and its leading arguments,
+ * honouring double quotes around paths with spaces
+ */
+export function getTestCommand(): { executable: string; args: string[] } {
+  const words = getSettings().testCommand.match(/"[^"]*"|\S+/g)?.map((word) => word.replace(/^"(.*)"$/, "$1")) ?? [];
+  const [executable = "npx", ...args] = words;
+  return { executable, args };
+}
+
+/**
+ * Translate a glob (`**`, `*`, `?` and `{a,b}`) to a regular expression over
+ * forward-slashed paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` also matches no directory at all
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The innermost directory above a file matching the snapshot directory globs
+ */
+export function findSnapshotDirectory(filePath: string): string | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+  if (!folder) {
+    return undefined;
+  }
+  const patterns = getSettings().snapshotDirectories.map((dir) => globToRegExp(dir.replace(/\/+$/, "")));
+  let dir = relative(folder, dirname(filePath)).replace(/\\/g, "/");
+  while (dir && !dir.startsWith("..")) {
+    if (patterns.some((pattern) => pattern.test(dir))) {
+      return join(folder, dir);
+    }
+    dir = dir.includes("/") ? dir.slice(0, dir.lastIndexOf("/")) : "";
+  }
+  return undefined;
+}
+
+/**
+ * Whether a file matches the spec file patterns, relative to its workspace folder
+ */
+export function isTestFilePath(filePath: string): boolean {
+  const relativePath = vscode.workspace.asRelativePath(filePath, false).replace(/\\/g, "/");
+  return getSettings().testFilePatterns.some((pattern) => globToRegExp(pattern).test(relativePath));
+}
@@ -0,0 +1,399 @@
+import * as vscode from "vscode";
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, join, normalize, relative } from "path";
+import { glob } from "glob";
+import { executePlaywright } from "./playwrightRunner";
+import {
+  findNearestPlaywrightConfig,
+  getProjectsForFile,
+  ResolvedPlaywrightConfig,
+  ResolvedProject,
+  resolveAllConfigs,
+} from "./playwrightConfig";
+import { expandSnapshotPath, findSnapshotOwner, SNAPSHOT_PLATFORMS } from "./snapshotPathTemplate";
+import { findSnapshotDirectory, getTestFileGlob } from "./settings";
+import { getSnapshotNames } from "./snapshotLocator";
+import { discoverTests, flattenTestBlocks, TestBlock } from "./testDiscovery";
+
+const VIEW_ID = "playwright-helpers.snapshotHealth";
+const SCANNED_CONTEXT = "playwright-helpers.snapshotHealthScanned";
+
+/**
+ * A snapshot file no discovered test would read
+ */
+export interface OrphanedSnapshot {
+  path: string;
+  reason: string;
+}
+
+/**
+ * A baseline a test expects that doesn't exist
+ */
+export interface MissingBaseline {
+  path: string;
+  project: ResolvedProject;
+  /** Undefined when the project's template doesn't depend on the platform */
+  platform?: string;
+}
+
+export interface TestMissingBaselines {
+  config: ResolvedPlaywrightConfig;
+  testFilePath: string;
+  test: TestBlock;
+  missing: MissingBaseline[];
+}
+
+export interface SnapshotHealthReport {
+  orphans: OrphanedSnapshot[];
+  missing: TestMissingBaselines[];
+}
+
+type HealthNode =
+  | { kind: "group"; group: "orphans" | "missing" }
+  | { kind: "orphan"; orphan: OrphanedSnapshot }
+  | { kind: "test"; entry: TestMissingBaselines }
+  | { kind: "missing"; missing: MissingBaseline };
+
+function toSlashes(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+/**
+ * Regex for an expanded path containing `*` wildcards from runtime names
+ */
+function toPathRegExp(path: string): RegExp {
+  const escaped = toSlashes(path).replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, "[^/]*")}$`);
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = relative(dir, file);
+  return !!rel && !rel.startsWith("..") && !rel.startsWith("/") && !/^[a-zA-Z]:/.test(rel);
+}
+
+/**
+ * Cross-reference snapshot files on disk with the baselines every discovered
+ * test expects. Files no test expects are orphans; expected baselines that
+ * are absent are reported for the platforms the workspace keeps baselines for.
+ */
+export async function scanSnapshotHealth(snapshotDirs: string[]): Promise<SnapshotHealthReport> {
+  const configs = await resolveAllConfigs();
+  const expected = new Set<string>();
+  const patterns: RegExp[] = [];
+  const candidates: Array<TestMissingBaselines & { paths: MissingBaseline[] }> = [];
+
+  // Every baseline path each test's assertions resolve to
+  for (const specFile of await vscode.workspace.findFiles(getTestFileGlob(), "**/node_modules/**")) {
+    const testFilePath = specFile.fsPath;
+    // The nearest config owns the spec, even when another config's testDir also contains it
+    const nearest = findNearestPlaywrightConfig(testFilePath);
+    const config =
+      configs.find((c) => nearest && normalize(c.configFile) === normalize(nearest)) ??
+      configs.find((c) => c.projects.some((project) => isInside(project.testDir, testFilePath)));
+    if (!config) {
+      continue;
+    }
+
+    let tests: TestBlock[];
+    try {
+      tests = flattenTestBlocks(discoverTests(readFileSync(testFilePath, "utf8"), testFilePath), "test");
+    } catch {
+      continue;
+    }
+
+    for (const test of tests.filter((t) => t.snapshots.length > 0)) {
+      const paths: MissingBaseline[] = [];
+      for (const name of getSnapshotNames(test)) {
+        for (const project of getProjectsForFile(config, testFilePath)) {
+          const perPlatform = SNAPSHOT_PLATFORMS.map((platform) => ({
+            platform,
+            path: normalize(expandSnapshotPath({ config, project, testFilePath, titlePath: test.titlePath, platform }, name.fileName)),
+          }));
+
+          if (name.isPattern || perPlatform.some(({ path }) => path.includes("*"))) {
+            perPlatform.forEach(({ path }) => patterns.push(toPathRegExp(path)));
+            continue;
+          }
+
+          perPlatform.forEach(({ path }) => expected.add(path));
+          const platformIndependent = perPlatform.every(({ path }) => path === perPlatform[0].path);
+          for (const { platform, path } of platformIndependent ? perPlatform.slice(0, 1) : perPlatform) {
+            if (!paths.some((p) => p.path === path)) {
+              paths.push({ path, project, platform: platformIndependent ? undefined : platform });
+            }
+          }
+        }
+      }
+      candidates.push({ config, testFilePath, test, missing: [], paths });
+    }
+  }
+
+  // Only report platforms the workspace keeps baselines for at all
+  const platforms = new Set<string>();
+  for (const candidate of candidates) {
+    candidate.paths.filter((p) => p.platform && existsSync(p.path)).forEach((p) => platforms.add(p.platform!));
+  }
+  if (platforms.size === 0) {
+    platforms.add(process.platform);
+  }
+
+  const missing: TestMissingBaselines[] = [];
+  for (const { paths, ...entry } of candidates) {
+    entry.missing = paths.filter((p) => (!p.platform || platforms.has(p.platform)) && !existsSync(p.path));
+    if (entry.missing.length > 0) {
+      missing.push(entry);
+    }
+  }
+
+  // Snapshot files on disk: everything in snapshot directories, plus files
+  // elsewhere that a project's snapshotPathTemplate could have produced
+  const files = new Set<string>();
+  const searches = [
+    ...snapshotDirs.map((dir) => `${toSlashes(dir)}/**/*`),
+    ...(vscode.workspace.workspaceFolders ?? []).map((folder) => `${toSlashes(folder.uri.fsPath)}/**/*-snapshots/**/*`),
+  ];
+  for (const pattern of searches) {
+    for (const file of await glob(pattern, { nodir: true, ignore: "**/node_modules/**" })) {
+      const isSnapshotFile =
+        !!findSnapshotDirectory(file) || configs.some((config) => findSnapshotOwner(config, file));
+      if (isSnapshotFile) {
+        files.add(normalize(file));
+      }
+    }
+  }
+
+  const orphans: OrphanedSnapshot[] = [];
+  for (const file of [...files].sort()) {
+    if (expected.has(file) || patterns.some((pattern) => pattern.test(toSlashes(file)))) {
+      continue;
+    }
+    orphans.push({ path: file, reason: getOrphanReason(configs, file) });
+  }
+
+  return { orphans, missing };
+}
+
+/**
+ * Explain why nothing reads a snapshot file
+ */
+function getOrphanReason(configs: ResolvedPlaywrightConfig[], file: string): string {
+  for (const config of configs) {
+    const owner = findSnapshotOwner(config, file);
+    if (owner?.testFilePath !== undefined) {
+      const specFile = join(owner.project.testDir, owner.testFilePath);
+      return existsSync(specFile)
+        ? `No test in ${owner.testFilePath} takes this snapshot`
+        : `Spec file ${owner.testFilePath} no longer exists`;
+    }
+    if (owner) {
+      return `No test takes this snapshot`;
+    }
+  }
+  return "Does not match any test's snapshot path";
+}
+
+/**
+ * "Snapshot Health" view listing orphaned snapshots and missing baselines,
+ * with bulk delete and generate actions
+ */
+export class SnapshotHealthView implements vscode.TreeDataProvider<HealthNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<HealthNode | undefined>();
+  public readonly onDidChangeTreeData: vscode.Event<HealthNode | undefined> = this._onDidChangeTreeData.event;
+  private report: SnapshotHealthReport = { orphans: [], missing: [] };
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private outputChannel: vscode.OutputChannel,
+    private findSnapshotDirectories: () => Promise<string[]>
+  ) {
+    this.disposables.push(
+      this._onDidChangeTreeData,
+      vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this, showCollapseAll: true }),
+      vscode.commands.registerCommand("playwright-helpers.findOrphanedSnapshots", () => this.scan(true)),
+      vscode.commands.registerCommand("playwright-helpers.refreshSnapshotHealth", () => this.scan(false)),
+      vscode.commands.registerCommand("playwright-helpers.deleteOrphanedSnapshots", (node?: HealthNode) =>
+        this.deleteOrphans(node)
+      ),
+      vscode.commands.registerCommand("playwright-helpers.generateMissingSnapshots", (node?: HealthNode) =>
+        this.generateMissing(node)
+      )
+    );
+  }
+
+  async scan(reveal: boolean) {
+    await vscode.window.withProgress(
+      { location: { viewId: VIEW_ID }, title: "Scanning snapshots" },
+      async () => {
+        try {
+          this.report = await scanSnapshotHealth(await this.findSnapshotDirectories());
+          this.outputChannel.appendLine(
+            `Snapshot health: ${this.report.orphans.length} orphaned snapshots, ` +
+              `${this.report.missing.length} tests missing baselines`
+          );
+        } catch (error) {
+          this.outputChannel.appendLine(`Error scanning snapshots: ${error}`);
+          vscode.window.showErrorMessage(`Could not scan snapshots: ${error}`);
+        }
+      }
+    );
+
+    this._onDidChangeTreeData.fire(undefined);
+    await vscode.commands.executeCommand("setContext", SCANNED_CONTEXT, true);
+    if (reveal) {
+      await vscode.commands.executeCommand(`${VIEW_ID}.focus`);
+    }
+  }
+
+  getTreeItem(node: HealthNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "group": {
+        const isOrphans = node.group === "orphans";
+        const count = isOrphans ? this.report.orphans.length : this.report.missing.length;
+        const item = new vscode.TreeItem(
+          isOrphans ? "Orphaned Snapshots" : "Missing Baselines",
+          count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = isOrphans ? `${count} files` : `${count} tests`;
+        item.contextValue = isOrphans ? "orphanedSnapshotGroup" : "missingBaselineGroup";
+        return item;
+      }
+      case "orphan": {
+        const item = new vscode.TreeItem(vscode.Uri.file(node.orphan.path));
+        item.description = vscode.workspace.asRelativePath(dirname(node.orphan.path));
+        item.tooltip = `${node.orphan.path}\n${node.orphan.reason}`;
+        item.contextValue = "orphanedSnapshot";
+        item.command = { title: "Open", command: "vscode.open", arguments: [vscode.Uri.file(node.orphan.path)] };
+        return item;
+      }
+      case "test": {
+        const { test, testFilePath, missing } = node.entry;
+        const item = new vscode.TreeItem(test.fullTitle, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = `${basename(testFilePath)} · ${missing.length} missing`;
+        item.iconPath = new vscode.ThemeIcon("beaker");
+        item.contextValue = "testMissingBaselines";
+        item.command = {
+          title: "Go to Test",
+          command: "vscode.open",
+          arguments: [vscode.Uri.file(testFilePath), { selection: new vscode.Range(test.startLine, 0, test.startLine, 0) }],
+        };
+        return item;
+      }
+      case "missing": {
+        const { path, project, platform } = node.missing;
+        const item = new vscode.TreeItem(basename(path));
+        item.description = `${project.name || "default project"} · ${platform ?? "any platform"}`;
+        item.tooltip = path;
+        item.iconPath = new vscode.ThemeIcon("warning");
+        return item;
+      }
+    }
+  }
+
+  getChildren(node?: HealthNode): HealthNode[] {
+    if (!node) {
+      return [
+        { kind: "group", group: "orphans" },
+        { kind: "group", group: "missing" },
+      ];
+    }
+    if (node.kind === "group") {
+      return node.group === "orphans"
+        ? this.report.orphans.map((orphan) => ({ kind: "orphan", orphan }))
+        : this.report.missing.map((entry) => ({ kind: "test", entry }));
+    }
+    if (node.kind === "test") {
+      return node.entry.missing.map((missing) => ({ kind: "missing", missing }));
+    }
+    return [];
+  }
+
+  /**
+   * Move one orphan, or all of them, to the trash after confirming
+   */
+  private async deleteOrphans(node?: HealthNode) {
+    const orphans = node?.kind === "orphan" ? [node.orphan] : this.report.orphans;
+    if (orphans.length === 0) {
+      vscode.window.showInformationMessage("No orphaned snapshots to delete");
+      return;
+    }
+
+    const files = orphans.map((orphan) => vscode.workspace.asRelativePath(orphan.path));
+    const shown = files.length > 30 ? [...files.slice(0, 30), `…and ${files.length - 30} more`] : files;
+    const choice = await vscode.window.showWarningMessage(
+      `Move ${orphans.length} orphaned snapshot${orphans.length === 1 ? "" : "s"} to the trash?`,
+      { modal: true, detail: shown.join("\n") },
+      "Delete"
+    );
+    if (choice !== "Delete") {
+      return;
+    }
+
+    let deleted = 0;
+    for (const orphan of orphans) {
+      try {
+        await vscode.workspace.fs.delete(vscode.Uri.file(orphan.path), { useTrash: true });
+        this.outputChannel.appendLine(`Deleted orphaned snapshot ${orphan.path}`);
+        deleted++;
+      } catch (error) {
+        this.outputChannel.appendLine(`Could not delete ${orphan.path}: ${error}`);
+      }
+    }
+    vscode.window.showInformationMessage(`Deleted ${deleted} of ${orphans.length} orphaned snapshots`);
+    await this.scan(false);
+  }
+
+  /**
+   * Run the tests missing baselines so Playwright writes them. Playwright
+   * creates missing snapshots on a normal run, so existing ones are untouched.
+   * Only this machine's platform can be generated.
+   */
+  private async generateMissing(node?: HealthNode) {
+    const entries = node?.kind === "test" ? [node.entry] : this.report.missing;
+    const runnable = entries
+      .map((entry) => ({
+        ...entry,
+        missing: entry.missing.filter((m) => !m.platform || m.platform === process.platform),
+      }))
+      .filter((entry) => entry.missing.length > 0);
+
+    if (runnable.length === 0) {
+      vscode.window.showInformationMessage(
+        `No baselines are missing for ${process.platform}; other platforms' baselines must be generated on those platforms`
+      );
+      return;
+    }
+
+    // One run per config, limited to the tests and projects that need it
+    const byConfig = new Map<string, typeof runnable>();
+    for (const entry of runnable) {
+      byConfig.set(entry.config.configFile, [...(byConfig.get(entry.config.configFile) ?? []), entry]);
+    }
+
+    for (const [configFile, configEntries] of byConfig) {
+      const locations = configEntries.map((entry) => `${entry.testFilePath}:${entry.test.startLine + 1}`);
+      const projects = new Set(configEntries.flatMap((entry) => entry.missing.map((m) => m.project.name)));
+      const args = [
+        "--config",
+        configFile,
+        ...locations,
+        ...[...projects].filter(Boolean).map((project) => `--project=${project}`),
+      ];
+      this.outputChannel.appendLine(`Generating missing baselines for ${configEntries.length} tests`);
+      await executePlaywright(
+        {
+          args,
+          cwd: dirname(configFile),
+          title: `Generating missing baselines for ${configEntries.length} test${configEntries.length === 1 ? "" : "s"}`,
+          updateSnapshots: false,
+        },
+        this.outputChannel
+      );
+    }
+
+    await this.scan(false);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,227 @@
+import * as vscode from "vscode";
+import { basename, dirname, isAbsolute, normalize, relative } from "path";
+import { onDidChangePlaywrightConfig, ResolvedPlaywrightConfig, resolveAllConfigs } from "./playwrightConfig";
+import { getSnapshotImageGlob, onDidChangeSettings } from "./settings";
+import { findTestSnapshots, getSnapshotNames, SnapshotFileLookup, TestSnapshot } from "./snapshotLocator";
+import { getTemplateBaseDir } from "./snapshotPathTemplate";
+import { onDidChangeSnapshotFiles, SnapshotFileChanges } from "./snapshotWatcher";
+import { SnapshotAssertion, TestBlock } from "./testDiscovery";
+
+/**
+ * Images Playwright left in one test's output directory for a failed
+ * screenshot assertion
+ */
+export interface IndexedFailure {
+  dir: string;
+  actual: string;
+  expected: string;
+  diff?: string;
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = relative(dir, file);
+  return !!rel && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+function toSlashes(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+/**
+ * Every baseline and test output image in the workspace, listed once and
+ * kept current by the snapshot watcher, so CodeLenses and views look files up
+ * in memory instead of globbing. Lookups are memoized until a file changes.
+ */
+export class SnapshotIndex implements SnapshotFileLookup, vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires once the index reflects a change on disk */
+  public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  /**
+   * Baseline directory → baselines in it. Templates put each spec's
+   * baselines in their own directory, so a lookup reads one spec's files.
+   */
+  private baselines = new Map<string, Set<string>>();
+  /** Output directory → images in it */
+  private outputs = new Map<string, Set<string>>();
+  private outputDirs: string[] = [];
+  private built: Promise<void> | undefined;
+  /** Lookups with the assertions of the parse they were made for */
+  private snapshotCache = new Map<string, { assertions: SnapshotAssertion[]; snapshots: Promise<TestSnapshot[]> }>();
+  private failureCache = new Map<string, IndexedFailure[]>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private outputChannel: vscode.OutputChannel) {
+    this.disposables.push(
+      this._onDidChange,
+      onDidChangeSnapshotFiles(async (changes) => {
+        await this.ready();
+        this.apply(changes);
+      }),
+      onDidChangePlaywrightConfig(() => this.rebuild()),
+      onDidChangeSettings(() => this.rebuild()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild())
+    );
+  }
+
+  /**
+   * Resolves once the initial listing is complete
+   */
+  ready(): Promise<void> {
+    this.built ??= this.build();
+    return this.built;
+  }
+
+  private rebuild() {
+    this.built = undefined;
+    this.ready().then(() => this._onDidChange.fire());
+  }
+
+  private async build() {
+    const baselineDirs = new Set<string>();
+    const outputDirs = new Set<string>();
+    for (const config of await resolveAllConfigs()) {
+      for (const project of config.projects) {
+        baselineDirs.add(getTemplateBaseDir(config, project) ?? project.snapshotDir);
+        outputDirs.add(normalize(project.outputDir));
+      }
+    }
+
+    const files = new Set<string>();
+    const patterns: vscode.GlobPattern[] = [
+      getSnapshotImageGlob(),
+      ...[...baselineDirs, ...outputDirs].map((dir) => new vscode.RelativePattern(dir, "**/*.png")),
+    ];
+    for (const pattern of patterns) {
+      for (const uri of await vscode.workspace.findFiles(pattern, "**/node_modules/**")) {
+        files.add(normalize(uri.fsPath));
+      }
+    }
+
+    this.outputDirs = [...outputDirs];
+    this.baselines = new Map();
+    this.outputs = new Map();
+    files.forEach((file) => this.add(file));
+    this.clearCaches();
+    const baselineCount = [...this.baselines.values()].reduce((count, baselines) => count + baselines.size, 0);
+    this.outputChannel.appendLine(
+      `Snapshot index: ${baselineCount} baselines, ${this.outputs.size} test output directories`
+    );
+  }
+
+  private add(file: string) {
+    const byDir = this.outputDirs.some((dir) => isInside(dir, file)) ? this.outputs : this.baselines;
+    const files = byDir.get(dirname(file)) ?? new Set<string>();
+    files.add(file);
+    byDir.set(dirname(file), files);
+  }
+
+  private remove(file: string) {
+    for (const byDir of [this.baselines, this.outputs]) {
+      const files = byDir.get(dirname(file));
+      if (files) {
+        files.delete(file);
+        if (files.size === 0) {
+          byDir.delete(dirname(file));
+        }
+      }
+    }
+  }
+
+  private apply(changes: SnapshotFileChanges) {
+    if (changes.changed.length === 0 && changes.deleted.length === 0) {
+      return;
+    }
+    changes.changed.forEach((file) => this.add(normalize(file)));
+    changes.deleted.forEach((file) => this.remove(normalize(file)));
+    this.clearCaches();
+    this._onDidChange.fire();
+  }
+
+  private clearCaches() {
+    this.snapshotCache.clear();
+    this.failureCache.clear();
+  }
+
+  exists(path: string): boolean {
+    return !!this.baselines.get(dirname(normalize(path)))?.has(normalize(path));
+  }
+
+  match(pattern: string): string[] {
+    const escaped = toSlashes(normalize(pattern)).replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    const regex = new RegExp(`^${escaped.replace(/\*/g, "[^/]*")}$`);
+    // Only a wildcard in the directory, e.g. from a dynamic `{testName}`, needs every directory
+    const dir = dirname(normalize(pattern));
+    const candidates = dir.includes("*")
+      ? [...this.baselines.values()].flatMap((files) => [...files])
+      : [...(this.baselines.get(dir) ?? [])];
+    return candidates.filter((file) => regex.test(toSlashes(file)));
+  }
+
+  /**
+   * Every baseline a test owns, across projects and platforms. Each snapshot
+   * refers to the assertions of the given test, even when cached for an
+   * earlier parse of the file.
+   */
+  async findTestSnapshots(config: ResolvedPlaywrightConfig, testFilePath: string, test: TestBlock): Promise<TestSnapshot[]> {
+    await this.ready();
+    const snapshotNames = getSnapshotNames(test);
+    const names = snapshotNames.map((name) => name.fileName);
+    if (names.length === 0) {
+      return [];
+    }
+
+    const key = [config.configFile, testFilePath, ...test.titlePath, ...names].join("\0");
+    let cached = this.snapshotCache.get(key);
+    if (!cached) {
+      cached = { assertions: test.snapshots, snapshots: findTestSnapshots(config, testFilePath, test, this) };
+      this.snapshotCache.set(key, cached);
+    }
+    if (cached.assertions === test.snapshots) {
+      return cached.snapshots;
+    }
+
+    // The same names mean the same assertions in the same order, parsed again after an edit
+    const { assertions } = cached;
+    return (await cached.snapshots).map((snapshot) => ({
+      ...snapshot,
+      name: snapshotNames[assertions.indexOf(snapshot.name.assertion)] ?? snapshot.name,
+    }));
+  }
+
+  /**
+   * Actual/expected pairs in test output directories named after the test,
+   * most specific directory first
+   */
+  async findFailures(outputDir: string, sanitizedTestName: string): Promise<IndexedFailure[]> {
+    await this.ready();
+    const key = `${outputDir}\0${sanitizedTestName}`;
+    const cached = this.failureCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const failures: IndexedFailure[] = [];
+    const dirs = [...this.outputs.keys()]
+      .filter((dir) => isInside(normalize(outputDir), dir) && basename(dir).includes(sanitizedTestName))
+      .sort((a, b) => Number(basename(b) === sanitizedTestName) - Number(basename(a) === sanitizedTestName));
+
+    for (const dir of dirs) {
+      const images = [...this.outputs.get(dir)!];
+      for (const actual of images.filter((file) => file.endsWith("-actual.png"))) {
+        const stem = actual.slice(0, -"-actual.png".length);
+        const expected = images.find((file) => file === `${stem}-expected.png`);
+        if (expected) {
+          failures.push({ dir, actual, expected, diff: images.find((file) => file === `${stem}-diff.png`) });
+        }
+      }
+    }
+
+    this.failureCache.set(key, failures);
+    return failures;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,160 @@
+import { existsSync } from "fs";
+import { extname } from "path";
+import { glob } from "glob";
+import { ResolvedPlaywrightConfig, ResolvedProject, getProjectsForFile } from "./playwrightConfig";
+import {
+  expandSnapshotPath,
+  sanitizeForFilePath,
+  SNAPSHOT_PLATFORMS,
+  toNamePattern,
+  trimLongString,
+} from "./snapshotPathTemplate";
+import { SnapshotAssertion, TestBlock } from "./testDiscovery";
+
+/**
+ * The file name Playwright gives one snapshot assertion
+ */
+export interface SnapshotName {
+  assertion: SnapshotAssertion;
+  /** Name passed to the template's `{arg}{ext}`, possibly with `/` segments */
+  fileName: string;
+  /** Whether `fileName` contains `*` wildcards for runtime-only parts */
+  isPattern: boolean;
+}
+
+/**
+ * A baseline file that belongs to a test
+ */
+export interface TestSnapshot {
+  path: string;
+  name: SnapshotName;
+  project: ResolvedProject;
+  platform: string;
+}
+
+/**
+ * Where baselines are looked up: the file system, or an index of it
+ */
+export interface SnapshotFileLookup {
+  exists(path: string): boolean;
+  /** Files matching a path with `*` wildcards */
+  match(pattern: string): Promise<string[]> | string[];
+}
+
+const fileSystemLookup: SnapshotFileLookup = {
+  exists: existsSync,
+  // Normalize path for glob (prefers forward slashes even on Windows)
+  match: (pattern) => glob(pattern.replace(/\\/g, "/"), { nodir: true }),
+};
+
+/**
+ * Sanitize a name the way Playwright does, leaving its extension alone
+ */
+function sanitizeFilePathBeforeExtension(name: string): string {
+  const ext = extname(name);
+  return sanitizeForFilePath(name.substring(0, name.length - ext.length)) + ext;
+}
+
+/**
+ * Glob pattern for a name built at runtime, e.g. `tab-${i}.png` → `tab-*.png`
+ */
+function toDynamicNamePattern(name: string): string {
+  const ext = extname(name).includes("}") ? "" : extname(name);
+  return toNamePattern(name.substring(0, name.length - ext.length), sanitizeForFilePath) + ext;
+}
+
+/**
+ * Extension Playwright picks for an unnamed `toMatchSnapshot` from the value
+ * it receives: `.png` for screenshots, `.txt` for strings and `.dat` for
+ * other buffers. Only screenshot calls and string literals can be recognised
+ * statically; anything else, like a variable holding a screenshot, gets a
+ * wildcard so every extension counts as owned.
+ */
+function getAnonymousExtension(assertion: SnapshotAssertion): string {
+  if (assertion.matcher === "toHaveScreenshot" || /screenshot\(/i.test(assertion.subject)) {
+    return ".png";
+  }
+  if (/^["'`]/.test(assertion.subject.trim())) {
+    return ".txt";
+  }
+  return ".*";
+}
+
+/**
+ * Work out the snapshot file name of every assertion in a test. Unnamed
+ * assertions get Playwright's `<title path>-<n>` names, numbered in source order.
+ */
+export function getSnapshotNames(test: TestBlock): SnapshotName[] {
+  let anonymousIndex = 0;
+
+  return test.snapshots.map((assertion) => {
+    if (!assertion.name) {
+      const title = [...test.titlePath, ++anonymousIndex].join(" ");
+      const dynamicTitle = title.includes("${");
+      const extension = getAnonymousExtension(assertion);
+      const fileName =
+        (dynamicTitle ? toNamePattern(title, sanitizeForFilePath) : sanitizeForFilePath(trimLongString(title))) +
+        extension;
+      return { assertion, fileName, isPattern: dynamicTitle || extension.includes("*") };
+    }
+
+    if (assertion.name.length > 1) {
+      // Array names are used as path segments without sanitizing
+      const fileName = assertion.name
+        .map((segment) => (assertion.dynamic ? toNamePattern(segment, (part) => part) : segment))
+        .join("/");
+      return { assertion, fileName, isPattern: assertion.dynamic };
+    }
+
+    let fileName = assertion.dynamic
+      ? toDynamicNamePattern(assertion.name[0])
+      : sanitizeFilePathBeforeExtension(trimLongString(assertion.name[0]));
+    if (assertion.matcher === "toHaveScreenshot" && !fileName.endsWith(".png")) {
+      fileName += ".png";
+    }
+    return { assertion, fileName, isPattern: assertion.dynamic };
+  });
+}
+
+/**
+ * Find every baseline a test owns, across the projects that run its file and
+ * every platform. Within each project, baselines for the current platform
+ * come first.
+ */
+export async function findTestSnapshots(
+  config: ResolvedPlaywrightConfig,
+  testFilePath: string,
+  test: TestBlock,
+  files: SnapshotFileLookup = fileSystemLookup
+): Promise<TestSnapshot[]> {
+  const names = getSnapshotNames(test);
+  if (names.length === 0) {
+    return [];
+  }
+
+  const platforms = [process.platform, ...SNAPSHOT_PLATFORMS.filter((p) => p !== process.platform)];
+  const found: TestSnapshot[] = [];
+  const seen = new Set<string>();
+
+  for (const project of getProjectsForFile(config, testFilePath)) {
+    for (const platform of platforms) {
+      const context = { config, project, testFilePath, titlePath: test.titlePath, platform };
+      for (const name of names) {
+        const expanded = expandSnapshotPath(context, name.fileName);
+        // Dynamic titles also leave wildcards behind in `{testName}`
+        const paths = name.isPattern || expanded.includes("*")
+          ? await files.match(expanded)
+          : files.exists(expanded) ? [expanded] : [];
+
+        for (const path of paths) {
+          if (!seen.has(path)) {
+            seen.add(path);
+            found.push({ path, name, project, platform });
+          }
+        }
+      }
+    }
+  }
+
+  return found;
+}
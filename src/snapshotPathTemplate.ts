@@ -0,0 +1,305 @@
+import { createHash } from "crypto";
+import { dirname, isAbsolute, join, normalize, parse, relative, resolve } from "path";
+import { ResolvedPlaywrightConfig, ResolvedProject } from "./playwrightConfig";
+
+/**
+ * Playwright's default `snapshotPathTemplate`
+ */
+export const DEFAULT_SNAPSHOT_PATH_TEMPLATE =
+  "{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{-projectName}{-platform}{ext}";
+
+/** Platforms Playwright may have recorded baselines on */
+export const SNAPSHOT_PLATFORMS = ["darwin", "linux", "win32"];
+
+/**
+ * Every token Playwright substitutes in a template. Each may carry a single
+ * prefix character, e.g. `{-projectName}` or `{/testFileDir}`.
+ */
+const TOKEN_REGEX =
+  /\{(.)?(testDir|snapshotDir|snapshotSuffix|testFileDir|testFilePath|testFileName|testName|arg|projectName|platform|ext)\}/g;
+
+/** A spec file name inside a reverse-lookup pattern */
+const SPEC_FILE_NAME = "[^/]+?\\.[cm]?[jt]sx?";
+
+/** Tokens whose prefix is dropped along with an empty value */
+const OPTIONAL_TOKENS = new Set(["projectName", "ext", "snapshotSuffix"]);
+
+/**
+ * Everything needed to expand a template for one test in one project
+ */
+export interface SnapshotPathContext {
+  config: ResolvedPlaywrightConfig;
+  project: ResolvedProject;
+  /** Absolute path of the spec file */
+  testFilePath: string;
+  /** Describe titles followed by the test title */
+  titlePath: string[];
+  /** Defaults to the current platform */
+  platform?: string;
+}
+
+/**
+ * What a snapshot file's path says about the test that owns it
+ */
+export interface SnapshotPathMatch {
+  project: ResolvedProject;
+  /** Absolute spec path, when the template records the file's directory */
+  testFilePath?: string;
+  /** Spec file name, when the template records it */
+  testFileName?: string;
+  /** Sanitized describe/test title, when the template records it */
+  testName?: string;
+  /** Snapshot name without extension */
+  arg?: string;
+  /** Project name, when the template records it */
+  projectName?: string;
+  platform?: string;
+  ext?: string;
+}
+
+/**
+ * Same sanitization Playwright applies to titles and project names
+ */
+export function sanitizeForFilePath(text: string): string {
+  return text.replace(/[\x00-\x2C\x2E-\x2F\x3A-\x40\x5B-\x60\x7B-\x7F]+/g, "-");
+}
+
+/**
+ * Shorten long titles the way Playwright does, keeping both ends and a hash
+ */
+export function trimLongString(text: string, length = 100): string {
+  if (text.length <= length) {
+    return text;
+  }
+  const hash = createHash("sha1").update(text).digest("hex");
+  const middle = `-${hash.substring(0, 5)}-`;
+  const start = Math.floor((length - middle.length) / 2);
+  const end = length - middle.length - start;
+  return text.substring(0, start) + middle + text.slice(-end);
+}
+
+/**
+ * Turn runtime `${...}` placeholders into `*` wildcards, sanitizing the static
+ * parts around them
+ */
+export function toNamePattern(text: string, sanitize: (part: string) => string): string {
+  return text
+    .split(/\$\{[^}]*\}/)
+    .map((part) => (part ? sanitize(part) : part))
+    .join("*");
+}
+
+/**
+ * The `{testName}` value for a test's title path. Titles only known at
+ * runtime come back as a glob pattern.
+ */
+export function getSnapshotTestName(titlePath: string[]): string {
+  const title = titlePath.join(" ");
+  return title.includes("${")
+    ? toNamePattern(title, sanitizeForFilePath)
+    : sanitizeForFilePath(trimLongString(title));
+}
+
+export function getSnapshotPathTemplate(project: ResolvedProject): string {
+  return project.snapshotPathTemplate || DEFAULT_SNAPSHOT_PATH_TEMPLATE;
+}
+
+function toSlashes(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Expand the project's template for a snapshot name such as `hero.png` or
+ * `nav/menu.png`, exactly as `toHaveScreenshot` would
+ */
+export function expandSnapshotPath(context: SnapshotPathContext, snapshotName: string): string {
+  const { config, project } = context;
+  const relativeTestFilePath = relative(project.testDir, context.testFilePath);
+  const parsedTestFile = parse(relativeTestFilePath);
+  const parsedName = parse(snapshotName);
+  const platform = context.platform ?? process.platform;
+
+  const values: { [token: string]: string } = {
+    testDir: project.testDir,
+    snapshotDir: project.snapshotDir,
+    snapshotSuffix: platform,
+    testFileDir: parsedTestFile.dir,
+    testFilePath: relativeTestFilePath,
+    testFileName: parsedTestFile.base,
+    testName: getSnapshotTestName(context.titlePath),
+    arg: join(parsedName.dir, parsedName.name),
+    projectName: sanitizeForFilePath(project.name),
+    platform,
+    ext: parsedName.ext,
+  };
+
+  const snapshotPath = getSnapshotPathTemplate(project).replace(
+    TOKEN_REGEX,
+    (_match, prefix: string | undefined, token: string) => {
+      const value = values[token];
+      if (!value && OPTIONAL_TOKENS.has(token)) {
+        return "";
+      }
+      return (prefix ?? "") + value;
+    }
+  );
+
+  return normalize(resolve(dirname(config.configFile), snapshotPath));
+}
+
+/**
+ * Work backwards from a snapshot file to the spec, test and snapshot name the
+ * project's template was expanded with. Returns undefined when the path
+ * doesn't fit the template.
+ */
+export function matchSnapshotPath(
+  config: ResolvedPlaywrightConfig,
+  project: ResolvedProject,
+  snapshotFile: string
+): SnapshotPathMatch | undefined {
+  const template = getSnapshotPathTemplate(project);
+  const projectName = sanitizeForFilePath(project.name);
+  const groups: string[] = [];
+  let pattern = "";
+  let lastIndex = 0;
+
+  const capture = (token: string, group: string) => {
+    groups.push(token);
+    return `(${group})`;
+  };
+
+  for (const match of template.matchAll(TOKEN_REGEX)) {
+    pattern += escapeRegExp(template.substring(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    const prefix = escapeRegExp(match[1] ?? "");
+    const token = match[2];
+    switch (token) {
+      case "testDir":
+        pattern += prefix + escapeRegExp(toSlashes(project.testDir));
+        break;
+      case "snapshotDir":
+        pattern += prefix + escapeRegExp(toSlashes(project.snapshotDir));
+        break;
+      case "projectName":
+        pattern += projectName ? prefix + escapeRegExp(projectName) : "";
+        break;
+      case "platform":
+        pattern += prefix + capture(token, "[a-z0-9]+");
+        break;
+      case "snapshotSuffix":
+        pattern += `(?:${prefix}${capture(token, "[a-z0-9]+")})?`;
+        break;
+      case "ext":
+        pattern += `(?:${prefix}${capture(token, "\\.[^./]+")})?`;
+        break;
+      case "testFileDir":
+        // Empty for specs directly in testDir, where the separator after it collapses
+        if (template[lastIndex] === "/") {
+          pattern += `(?:${prefix}${capture(token, ".*?")}/)?`;
+          lastIndex++;
+        } else {
+          pattern += prefix + capture(token, ".*?");
+        }
+        break;
+      case "testFilePath":
+        pattern += prefix + capture(token, `(?:[^/]+/)*?${SPEC_FILE_NAME}`);
+        break;
+      case "testFileName":
+        pattern += prefix + capture(token, SPEC_FILE_NAME);
+        break;
+      case "arg":
+        pattern += prefix + capture(token, ".+?");
+        break;
+      default:
+        // testName: a single path segment
+        pattern += prefix + capture(token, "[^/]+?");
+    }
+  }
+  pattern += escapeRegExp(template.substring(lastIndex));
+
+  // Relative templates are resolved against the config file's directory
+  const resolvedPrefix = template.replace(TOKEN_REGEX, (m, _p, token) =>
+    token === "testDir" || token === "snapshotDir" ? "/" : m
+  );
+  if (!isAbsolute(resolvedPrefix) && !/^[A-Za-z]:/.test(resolvedPrefix)) {
+    pattern = escapeRegExp(toSlashes(dirname(config.configFile))) + "/" + pattern;
+  }
+
+  // Duplicate separators collapse when Playwright normalizes the path
+  pattern = pattern.replace(/\/{2,}/g, "/");
+
+  const found = new RegExp(`^${pattern}$`).exec(toSlashes(normalize(snapshotFile)));
+  if (!found) {
+    return undefined;
+  }
+
+  const values: { [token: string]: string | undefined } = {};
+  groups.forEach((token, index) => {
+    if (values[token] === undefined) {
+      values[token] = found[index + 1];
+    }
+  });
+
+  // An optional testFileDir that didn't match means the spec sits in testDir
+  if (groups.includes("testFileDir") && values.testFileDir === undefined) {
+    values.testFileDir = "";
+  }
+
+  let relativeTestFile = values.testFilePath;
+  if (relativeTestFile === undefined && values.testFileDir !== undefined && values.testFileName) {
+    relativeTestFile = values.testFileDir ? `${values.testFileDir}/${values.testFileName}` : values.testFileName;
+  }
+
+  return {
+    project,
+    testFilePath: relativeTestFile ? normalize(join(project.testDir, relativeTestFile)) : undefined,
+    testFileName: values.testFileName ?? (relativeTestFile ? parse(relativeTestFile).base : undefined),
+    testName: values.testName,
+    arg: values.arg,
+    projectName: /\{.?projectName\}/.test(template) ? project.name : undefined,
+    platform: values.platform ?? values.snapshotSuffix,
+    ext: values.ext,
+  };
+}
+
+/**
+ * Match a snapshot file against every project in the config
+ */
+export function findSnapshotOwner(
+  config: ResolvedPlaywrightConfig,
+  snapshotFile: string
+): SnapshotPathMatch | undefined {
+  for (const project of config.projects) {
+    const match = matchSnapshotPath(config, project, snapshotFile);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Static directory prefix of a project's template, i.e. everything before the
+ * first token that depends on the test. Undefined for the default template.
+ */
+export function getTemplateBaseDir(
+  config: ResolvedPlaywrightConfig,
+  project: ResolvedProject
+): string | undefined {
+  if (!project.snapshotPathTemplate) {
+    return undefined;
+  }
+  const substituted = project.snapshotPathTemplate.replace(TOKEN_REGEX, (match, prefix, token) =>
+    token === "testDir" ? (prefix ?? "") + project.testDir
+      : token === "snapshotDir" ? (prefix ?? "") + project.snapshotDir
+      : match
+  );
+  const prefix = substituted.split("{")[0];
+  const dir = /[\\/]$/.test(prefix) ? prefix : dirname(prefix);
+  return normalize(resolve(dirname(config.configFile), dir));
+}
@@ -0,0 +1,243 @@
+import * as vscode from "vscode";
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, isAbsolute, join } from "path";
+import { TITLE_SEPARATOR } from "./jsonReport";
+import { getProjectsForFile, ResolvedPlaywrightConfig, resolveConfigForFile, resolveWorkspaceConfig } from "./playwrightConfig";
+import { expandSnapshotPath, sanitizeForFilePath, SNAPSHOT_PLATFORMS } from "./snapshotPathTemplate";
+import { discoverTests, findBlockAtLine, flattenTestBlocks } from "./testDiscovery";
+
+export type ReviewDecision = "accepted" | "rejected" | "skipped";
+
+/**
+ * A failed screenshot that can be accepted as the new baseline
+ */
+export interface ReviewItem {
+  /** ID of the item's tile in the gallery */
+  id: string;
+  testName: string;
+  /** Spec file as reported: absolute, or relative to a project's testDir */
+  testFile: string;
+  /** 1-based line of the test, when the report has it */
+  line?: number;
+  projectName?: string;
+  actual: string;
+  expected?: string;
+}
+
+export interface ReviewProgress {
+  /** Items accepted or rejected; skipped items are still pending */
+  reviewed: number;
+  total: number;
+  canUndo: boolean;
+}
+
+interface ReviewAction {
+  id: string;
+  decision: ReviewDecision;
+  /** Decision the item had before, restored on undo */
+  previous?: ReviewDecision;
+  /** Baseline overwritten by an accept */
+  baseline?: string;
+  /** Copy of the baseline before it was overwritten; absent when the accept created it */
+  backup?: string;
+}
+
+/**
+ * Locate the spec file a report refers to
+ */
+function findTestFile(config: ResolvedPlaywrightConfig, testFile: string): string | undefined {
+  if (isAbsolute(testFile)) {
+    return existsSync(testFile) ? testFile : undefined;
+  }
+  const candidates = [...config.projects.map((project) => join(project.testDir, testFile)), join(config.rootDir, testFile)];
+  return candidates.find((candidate) => existsSync(candidate));
+}
+
+/**
+ * Title path of the reported test, read from the spec so describe titles are included
+ */
+function findTitlePath(testFilePath: string, item: ReviewItem): string[] {
+  try {
+    const blocks = discoverTests(readFileSync(testFilePath, "utf8"), testFilePath);
+    const test =
+      (item.line !== undefined ? findBlockAtLine(blocks, item.line - 1) : undefined) ??
+      flattenTestBlocks(blocks, "test").find((block) =>
+        [block.titlePath.join(TITLE_SEPARATOR), block.fullTitle, block.name].includes(item.testName)
+      );
+    if (test) {
+      return test.titlePath;
+    }
+  } catch {
+    // Fall back to the reported title
+  }
+  return [item.testName];
+}
+
+/**
+ * Work out which baseline a failed screenshot belongs to, by expanding the
+ * snapshot path template for the test with the name Playwright gave the
+ * `-actual.png` attachment. When several projects or platforms could own it,
+ * the baseline that matches the reported expected image wins, so a report
+ * from CI updates the platform it ran on; otherwise it's this machine's.
+ *
+ * The config is the one nearest the spec, or the actual image when the report
+ * gives a relative spec path; `workspaceRoot` is only a fallback.
+ */
+export async function resolveBaselinePath(item: ReviewItem, workspaceRoot: string): Promise<string | undefined> {
+  const config =
+    (await resolveConfigForFile(isAbsolute(item.testFile) ? item.testFile : item.actual)) ??
+    (await resolveWorkspaceConfig(workspaceRoot));
+  const testFilePath = config && findTestFile(config, item.testFile);
+  if (!config || !testFilePath) {
+    return undefined;
+  }
+
+  const snapshotName = basename(item.actual).replace(/-actual(\.[^.]+)$/, "$1");
+  const titlePath = findTitlePath(testFilePath, item);
+
+  // Output directories end in `-<project>` or `-<project>-retry<n>`
+  const outputDir = basename(dirname(item.actual));
+  let projects = getProjectsForFile(config, testFilePath);
+  const reported = projects.filter((project) =>
+    item.projectName !== undefined
+      ? project.name === item.projectName
+      : project.name && new RegExp(`-${sanitizeForFilePath(project.name)}(-retry\\d+)?$`).test(outputDir)
+  );
+  if (reported.length > 0) {
+    projects = reported;
+  }
+
+  const expand = (platform: string) =>
+    projects.map((project) => expandSnapshotPath({ config, project, testFilePath, titlePath, platform }, snapshotName));
+  const candidates = expand(process.platform);
+  const existing = candidates.filter((candidate) => existsSync(candidate));
+
+  // The report may have run on another platform, e.g. linux in CI
+  const everyPlatform = [...new Set([...candidates, ...SNAPSHOT_PLATFORMS.flatMap(expand)])];
+  if (item.expected && everyPlatform.includes(item.expected)) {
+    return item.expected;
+  }
+  if (item.expected && existsSync(item.expected)) {
+    const expected = readFileSync(item.expected);
+    const matching = everyPlatform
+      .filter((candidate) => existsSync(candidate))
+      .find((candidate) => readFileSync(candidate).equals(expected));
+    if (matching) {
+      return matching;
+    }
+  }
+  return existing[0] ?? candidates[0];
+}
+
+/**
+ * One pass over the failed screenshots of a report. Accepting copies the
+ * actual image over its baseline; every decision can be undone in order.
+ */
+export class SnapshotReview implements vscode.Disposable {
+  private decisions = new Map<string, ReviewDecision>();
+  private baselines = new Map<string, Promise<string | undefined>>();
+  private undoStack: ReviewAction[] = [];
+  private backupDir: string | undefined;
+
+  constructor(
+    private items: ReviewItem[],
+    private workspaceRoot: string,
+    private outputChannel: vscode.OutputChannel
+  ) {}
+
+  /** The item shown in a gallery tile */
+  getItem(id: string): ReviewItem | undefined {
+    return this.items.find((candidate) => candidate.id === id);
+  }
+
+  get progress(): ReviewProgress {
+    const reviewed = [...this.decisions.values()].filter((decision) => decision !== "skipped").length;
+    return { reviewed, total: this.items.length, canUndo: this.undoStack.length > 0 };
+  }
+
+  /**
+   * Baseline an item's actual screenshot would replace, resolved once per item
+   */
+  getBaseline(id: string): Promise<string | undefined> {
+    const item = this.getItem(id);
+    if (!item) {
+      return Promise.resolve(undefined);
+    }
+    let baseline = this.baselines.get(id);
+    if (!baseline) {
+      baseline = resolveBaselinePath(item, this.workspaceRoot);
+      this.baselines.set(id, baseline);
+    }
+    return baseline;
+  }
+
+  /**
+   * Record a decision, writing the baseline for accepts. Throws when the
+   * baseline can't be located or written, leaving the item undecided.
+   */
+  async decide(id: string, decision: ReviewDecision) {
+    const item = this.getItem(id);
+    if (!item) {
+      throw new Error(`Unknown review item ${id}`);
+    }
+
+    const action: ReviewAction = { id, decision, previous: this.decisions.get(id) };
+
+    if (decision === "accepted") {
+      const baseline = await this.getBaseline(id);
+      if (!baseline) {
+        throw new Error(`Could not work out the baseline for "${item.testName}"`);
+      }
+      action.baseline = baseline;
+      action.backup = existsSync(baseline) ? this.backup(baseline) : undefined;
+
+      mkdirSync(dirname(baseline), { recursive: true });
+      copyFileSync(item.actual, baseline);
+      this.outputChannel.appendLine(`Accepted ${item.actual} as ${baseline}`);
+    }
+
+    this.decisions.set(id, decision);
+    this.undoStack.push(action);
+  }
+
+  /**
+   * Revert the most recent decision, restoring any baseline it replaced.
+   * Returns the item and the decision it has again.
+   */
+  undo(): { id: string; decision?: ReviewDecision } | undefined {
+    const action = this.undoStack.pop();
+    if (!action) {
+      return undefined;
+    }
+
+    if (action.baseline) {
+      if (action.backup) {
+        copyFileSync(action.backup, action.baseline);
+      } else if (existsSync(action.baseline)) {
+        unlinkSync(action.baseline);
+      }
+      this.outputChannel.appendLine(`Restored ${action.baseline}`);
+    }
+
+    if (action.previous) {
+      this.decisions.set(action.id, action.previous);
+    } else {
+      this.decisions.delete(action.id);
+    }
+    return { id: action.id, decision: action.previous };
+  }
+
+  private backup(baseline: string): string {
+    this.backupDir ??= mkdtempSync(join(tmpdir(), "playwright-helpers-review-"));
+    const backupPath = join(this.backupDir, `${this.undoStack.length}-${basename(baseline)}`);
+    copyFileSync(baseline, backupPath);
+    return backupPath;
+  }
+
+  dispose() {
+    if (this.backupDir) {
+      rmSync(this.backupDir, { recursive: true, force: true });
+    }
+  }
+}
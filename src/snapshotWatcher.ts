@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import { basename, dirname, isAbsolute, join, normalize } from "path";
+import { onDidChangePlaywrightConfig, resolveAllConfigs } from "./playwrightConfig";
+import { getSettings, getSnapshotImageGlob, onDidChangeSettings } from "./settings";
+import { getTemplateBaseDir } from "./snapshotPathTemplate";
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/** How long to collect file events before reporting them together */
+const BATCH_DELAY_MS = 300;
+
+/**
+ * Files that changed on disk since the last notification
+ */
+export interface SnapshotFileChanges {
+  /** Images created or rewritten, in snapshot or output directories */
+  changed: string[];
+  /** Images deleted */
+  deleted: string[];
+  /** JSON reports created or rewritten */
+  reports: string[];
+}
+
+const filesChanged = new vscode.EventEmitter<SnapshotFileChanges>();
+
+/**
+ * Fires with batched changes to baselines, test output images and JSON
+ * reports, whoever made them
+ */
+export const onDidChangeSnapshotFiles: vscode.Event<SnapshotFileChanges> = filesChanged.event;
+
+/**
+ * Watch every snapshot directory, each project's outputDir and the JSON
+ * reporter outputs. Watchers are rebuilt when a playwright.config or the
+ * extension's settings change.
+ */
+export function initSnapshotWatcher(providedOutputChannel: vscode.OutputChannel): vscode.Disposable {
+  outputChannel = providedOutputChannel;
+
+  let watchers: vscode.Disposable[] = [];
+  let generation = 0;
+  let pending: { changed: Set<string>; deleted: Set<string>; reports: Set<string> } | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const record = (kind: "changed" | "deleted" | "reports", uri: vscode.Uri) => {
+    const batch = (pending ??= { changed: new Set(), deleted: new Set(), reports: new Set() });
+    const path = normalize(uri.fsPath);
+    // Only the latest event for a file counts
+    if (kind === "changed") {
+      batch.deleted.delete(path);
+    } else if (kind === "deleted") {
+      batch.changed.delete(path);
+    }
+    batch[kind].add(path);
+
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      pending = undefined;
+      filesChanged.fire({ changed: [...batch.changed], deleted: [...batch.deleted], reports: [...batch.reports] });
+    }, BATCH_DELAY_MS);
+  };
+
+  const watchImages = (pattern: vscode.GlobPattern) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    watchers.push(
+      watcher,
+      watcher.onDidCreate((uri) => record("changed", uri)),
+      watcher.onDidChange((uri) => record("changed", uri)),
+      watcher.onDidDelete((uri) => record("deleted", uri))
+    );
+  };
+
+  const watchReports = (pattern: vscode.GlobPattern) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, true);
+    watchers.push(
+      watcher,
+      watcher.onDidCreate((uri) => record("reports", uri)),
+      watcher.onDidChange((uri) => record("reports", uri))
+    );
+  };
+
+  const rebuild = async () => {
+    const current = ++generation;
+    const dirs = new Set<string>();
+    const reports = new Set<string>();
+
+    for (const config of await resolveAllConfigs()) {
+      for (const project of config.projects) {
+        dirs.add(getTemplateBaseDir(config, project) ?? project.snapshotDir);
+        dirs.add(project.outputDir);
+      }
+      for (const [name, options] of config.reporters) {
+        const outputFile = options?.outputFile;
+        if (typeof outputFile === "string" && (outputFile.endsWith(".json") || name === "junit")) {
+          // Playwright resolves outputFile relative to the config file
+          reports.add(isAbsolute(outputFile) ? outputFile : join(dirname(config.configFile), outputFile));
+        }
+      }
+    }
+
+    // A newer rebuild started while this one resolved configs
+    if (current !== generation) {
+      return;
+    }
+
+    watchers.forEach((d) => d.dispose());
+    watchers = [];
+    watchImages(getSnapshotImageGlob());
+    dirs.forEach((dir) => watchImages(new vscode.RelativePattern(dir, "**/*.png")));
+    // Test results files found without a configured reporter
+    getSettings().resultsFiles.forEach((glob) => watchReports(glob));
+    reports.forEach((report) => watchReports(new vscode.RelativePattern(dirname(report), basename(report))));
+
+    outputChannel?.appendLine(
+      `Watching ${dirs.size} snapshot and output directories and ${reports.size} configured reports`
+    );
+  };
+
+  rebuild();
+
+  return vscode.Disposable.from(
+    onDidChangePlaywrightConfig(() => rebuild()),
+    onDidChangeSettings(() => rebuild()),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => rebuild()),
+    {
+      dispose: () => {
+        generation++;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        watchers.forEach((d) => d.dispose());
+      },
+    }
+  );
+}
@@ -0,0 +1,432 @@
+import * as vscode from "vscode";
+import { isAbsolute, join, normalize } from "path";
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import * as os from "os";
+import { TestBlock, TestCache } from "./testDiscovery";
+import { PlaywrightRunResult, stripAnsi } from "./playwrightRunner";
+import { collectReportSpecs, getErrorMessages, isJSONReport, JSONReport } from "./jsonReport";
+import { getTestFileGlob, isTestFilePath, onDidChangeSettings, shouldConfirmUpdates } from "./settings";
+
+/**
+ * Images Playwright left behind for a failed screenshot assertion
+ */
+export interface FailedSnapshotFiles {
+  actual: string;
+  expected: string;
+  /** Playwright's diff image, when it wrote one */
+  diff?: string;
+}
+
+/**
+ * Extension operations the test controller delegates to, so runs go
+ * through the same code paths as the CodeLenses and commands
+ */
+export interface TestControllerActions {
+  runPlaywright(options: {
+    path?: string;
+    test?: TestBlock;
+    confirm: boolean;
+    updateSnapshots?: boolean;
+    jsonOutputFile?: string;
+    token?: vscode.CancellationToken;
+  }): Promise<PlaywrightRunResult | undefined>;
+  findFailedSnapshotFiles(
+    testFilePath: string,
+    testName: string
+  ): Promise<FailedSnapshotFiles | undefined>;
+}
+
+/**
+ * What a test item stands for: a spec file, or a block inside one
+ */
+interface TestItemData {
+  file: vscode.Uri;
+  block?: TestBlock;
+}
+
+/**
+ * Outcome of one spec in a Playwright JSON report, across all projects
+ */
+interface SpecOutcome {
+  file: string;
+  line: number;
+  title: string;
+  status: "passed" | "failed" | "skipped";
+  duration: number;
+  errors: string[];
+}
+
+/**
+ * Populates the Test Explorer with the Playwright tests found by the
+ * TestCache and runs them through the extension's Playwright commands
+ */
+export class PlaywrightTestController implements vscode.Disposable {
+  private controller: vscode.TestController;
+  private itemData = new WeakMap<vscode.TestItem, TestItemData>();
+  private disposables: vscode.Disposable[] = [];
+  private specWatchers: vscode.Disposable[] = [];
+  private refreshTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private testCache: TestCache,
+    private outputChannel: vscode.OutputChannel,
+    private actions: TestControllerActions
+  ) {
+    this.controller = vscode.tests.createTestController(
+      "playwrightHelpers",
+      "Playwright Visual Tests"
+    );
+    this.controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.discoverAllFiles();
+      }
+    };
+
+    this.controller.createRunProfile(
+      "Run",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token, false),
+      true
+    );
+    this.controller.createRunProfile(
+      "Update Snapshot",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token, true),
+      false
+    );
+    this.controller.createRunProfile(
+      "Show Diff",
+      vscode.TestRunProfileKind.Run,
+      (request) => this.showDiffs(request),
+      false
+    );
+
+    this.watchSpecFiles();
+    this.disposables.push(
+      this.controller,
+      vscode.workspace.onDidChangeTextDocument((e) => this.scheduleRefresh(e.document.uri)),
+      onDidChangeSettings(() => {
+        // Rescan with the new spec file patterns
+        this.watchSpecFiles();
+        this.controller.items.replace([]);
+        this.discoverAllFiles();
+      })
+    );
+  }
+
+  dispose() {
+    this.refreshTimers.forEach((timer) => clearTimeout(timer));
+    this.specWatchers.forEach((d) => d.dispose());
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private watchSpecFiles() {
+    this.specWatchers.forEach((d) => d.dispose());
+    const watcher = vscode.workspace.createFileSystemWatcher(getTestFileGlob());
+    this.specWatchers = [
+      watcher,
+      watcher.onDidCreate((uri) => this.refreshFile(uri)),
+      watcher.onDidChange((uri) => this.refreshFile(uri)),
+      watcher.onDidDelete((uri) => this.controller.items.delete(uri.toString())),
+    ];
+  }
+
+  /**
+   * Find every spec file in the workspace and add its tests
+   */
+  private async discoverAllFiles() {
+    const files = await vscode.workspace.findFiles(getTestFileGlob(), "**/node_modules/**");
+    this.outputChannel.appendLine(`Test Explorer: scanning ${files.length} spec files`);
+    for (const file of files) {
+      await this.refreshFile(file);
+    }
+  }
+
+  private scheduleRefresh(uri: vscode.Uri) {
+    if (!isTestFilePath(uri.fsPath)) {
+      return;
+    }
+    const key = uri.toString();
+    const existing = this.refreshTimers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.refreshTimers.set(
+      key,
+      setTimeout(() => {
+        this.refreshTimers.delete(key);
+        this.refreshFile(uri);
+      }, 500)
+    );
+  }
+
+  /**
+   * Rebuild the items of one spec file from the TestCache
+   */
+  private async refreshFile(uri: vscode.Uri) {
+    const blocks = await this.testCache.getTestTreeForFile(uri);
+    const id = uri.toString();
+
+    if (blocks.length === 0) {
+      this.controller.items.delete(id);
+      return;
+    }
+
+    let fileItem = this.controller.items.get(id);
+    if (!fileItem) {
+      fileItem = this.controller.createTestItem(id, vscode.workspace.asRelativePath(uri), uri);
+      this.itemData.set(fileItem, { file: uri });
+      this.controller.items.add(fileItem);
+    }
+
+    fileItem.children.replace(this.createBlockItems(uri, blocks));
+  }
+
+  private createBlockItems(uri: vscode.Uri, blocks: TestBlock[]): vscode.TestItem[] {
+    const items: vscode.TestItem[] = [];
+    const usedIds = new Set<string>();
+
+    for (const block of blocks) {
+      if (block.kind === "step") {
+        continue;
+      }
+
+      // Anonymous describes don't get their own node in the tree
+      if (block.kind === "describe" && !block.name) {
+        items.push(...this.createBlockItems(uri, block.children));
+        continue;
+      }
+
+      let id = `${uri.toString()}#${block.titlePath.join(" › ")}`;
+      if (usedIds.has(id)) {
+        id += `@${block.startLine + 1}`;
+      }
+      usedIds.add(id);
+
+      const item = this.controller.createTestItem(id, block.name, uri);
+      item.range = block.range;
+      if (block.modifiers.length > 0) {
+        item.description = block.modifiers.join(", ");
+      }
+      if (block.kind === "describe") {
+        item.children.replace(this.createBlockItems(uri, block.children));
+      }
+      this.itemData.set(item, { file: uri, block });
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Collect the test (leaf) items below an item, including itself
+   */
+  private collectTests(item: vscode.TestItem, into: vscode.TestItem[] = []): vscode.TestItem[] {
+    const data = this.itemData.get(item);
+    if (data?.block?.kind === "test") {
+      into.push(item);
+    }
+    item.children.forEach((child) => this.collectTests(child, into));
+    return into;
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    updateSnapshots: boolean
+  ) {
+    if (this.controller.items.size === 0) {
+      await this.discoverAllFiles();
+    }
+
+    // undefined means the whole project was requested
+    const targets: Array<vscode.TestItem | undefined> = request.include
+      ? [...request.include]
+      : [undefined];
+    const excluded = new Set(request.exclude ?? []);
+
+    // Same confirmUpdates policy as updates started from CodeLenses and the explorer
+    const singleTest = request.include?.length === 1 && this.itemData.get(request.include[0])?.block?.kind === "test";
+    if (updateSnapshots && shouldConfirmUpdates(singleTest)) {
+      const answer = await vscode.window.showWarningMessage(
+        request.include
+          ? `Are you sure you want to update snapshots for ${request.include.length} selected item(s)?`
+          : "Are you sure you want to update all snapshots in the project?",
+        { modal: true },
+        "Yes, Update"
+      );
+      if (answer !== "Yes, Update") {
+        this.outputChannel.appendLine("Snapshot update cancelled by user");
+        return;
+      }
+    }
+
+    const run = this.controller.createTestRun(request);
+
+    for (const target of targets) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+
+      const roots: vscode.TestItem[] = [];
+      if (target) {
+        roots.push(target);
+      } else {
+        this.controller.items.forEach((item) => roots.push(item));
+      }
+      const tests = roots
+        .flatMap((root) => this.collectTests(root))
+        .filter((test) => !excluded.has(test));
+      tests.forEach((test) => run.started(test));
+
+      const data = target ? this.itemData.get(target) : undefined;
+      const reportFile = join(os.tmpdir(), `playwright-helpers-${Date.now()}.json`);
+      const result = await this.actions.runPlaywright({
+        path: data?.file.fsPath,
+        test: data?.block,
+        confirm: false,
+        updateSnapshots,
+        jsonOutputFile: reportFile,
+        token,
+      });
+
+      const report = result && !result.cancelled ? readReport(reportFile) : undefined;
+      if (!report) {
+        tests.forEach((test) => run.skipped(test));
+        continue;
+      }
+
+      await this.applyReport(run, report, tests);
+    }
+
+    run.end();
+  }
+
+  /**
+   * Mark each test item with the outcome of the specs declared at its location
+   */
+  private async applyReport(run: vscode.TestRun, report: JSONReport, tests: vscode.TestItem[]) {
+    const rootDir = report.config.rootDir ?? "";
+    const outcomes = collectSpecOutcomes(report);
+
+    for (const test of tests) {
+      const data = this.itemData.get(test);
+      if (!data?.block) {
+        continue;
+      }
+      const block = data.block;
+      const testPath = normalize(data.file.fsPath);
+
+      const matching = outcomes.filter((outcome) => {
+        const outcomePath = normalize(isAbsolute(outcome.file) ? outcome.file : join(rootDir, outcome.file));
+        const sameFile = outcomePath === testPath || testPath.endsWith(normalize(outcome.file));
+        return sameFile && outcome.line === block.startLine + 1;
+      });
+
+      if (matching.length === 0) {
+        run.skipped(test);
+        continue;
+      }
+
+      const duration = matching.reduce((total, outcome) => total + outcome.duration, 0);
+      const failed = matching.filter((outcome) => outcome.status === "failed");
+
+      if (failed.length > 0) {
+        const messages = failed
+          .flatMap((outcome) => outcome.errors)
+          .map((error) => {
+            const message = new vscode.TestMessage(stripAnsi(error));
+            message.location = new vscode.Location(data.file, block.range);
+            return message;
+          });
+        if (messages.length === 0) {
+          messages.push(new vscode.TestMessage("Test failed"));
+        }
+        run.failed(test, messages, duration);
+
+        const failedSnapshots = await this.actions.findFailedSnapshotFiles(data.file.fsPath, block.name);
+        if (failedSnapshots) {
+          run.appendOutput(
+            `Snapshot mismatch for "${block.fullTitle}". Use the "Show Diff" profile to compare.\r\n`,
+            undefined,
+            test
+          );
+        }
+      } else if (matching.some((outcome) => outcome.status === "passed")) {
+        run.passed(test, duration);
+      } else {
+        run.skipped(test);
+      }
+    }
+  }
+
+  /**
+   * Open the snapshot diff for every requested test that has failed snapshots
+   */
+  private async showDiffs(request: vscode.TestRunRequest) {
+    const roots: vscode.TestItem[] = [];
+    if (request.include) {
+      roots.push(...request.include);
+    } else {
+      this.controller.items.forEach((item) => roots.push(item));
+    }
+
+    let shown = 0;
+    for (const test of roots.flatMap((root) => this.collectTests(root))) {
+      const data = this.itemData.get(test);
+      if (!data?.block) {
+        continue;
+      }
+      const failedSnapshots = await this.actions.findFailedSnapshotFiles(data.file.fsPath, data.block.name);
+      if (failedSnapshots) {
+        await vscode.commands.executeCommand(
+          "playwright-helpers.showSnapshotDiff",
+          failedSnapshots.actual,
+          failedSnapshots.expected,
+          failedSnapshots.diff
+        );
+        shown++;
+      }
+    }
+
+    if (shown === 0) {
+      vscode.window.showInformationMessage("No failed snapshots found for the selected tests");
+    }
+  }
+}
+
+/**
+ * Read and remove the JSON report written by a run
+ */
+function readReport(reportFile: string): JSONReport | undefined {
+  if (!existsSync(reportFile)) {
+    return undefined;
+  }
+  try {
+    const report = JSON.parse(readFileSync(reportFile, "utf8"));
+    return isJSONReport(report) ? report : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    unlinkSync(reportFile);
+  }
+}
+
+/**
+ * Every spec's outcome in a Playwright JSON report
+ */
+function collectSpecOutcomes(report: JSONReport): SpecOutcome[] {
+  return collectReportSpecs(report).map(({ file, spec }) => {
+    const results = spec.tests.flatMap((test) => test.results ?? []);
+    const failed = spec.tests.some((test) => test.status === "unexpected");
+    const skipped = spec.tests.length > 0 && spec.tests.every((test) => test.status === "skipped");
+    return {
+      file,
+      line: spec.line,
+      title: spec.title,
+      status: failed ? "failed" : skipped ? "skipped" : "passed",
+      duration: results.reduce((total, result) => total + (result.duration || 0), 0),
+      errors: results.flatMap(getErrorMessages),
+    };
+  });
+}
@@ -0,0 +1,495 @@
+import * as vscode from "vscode";
+import * as ts from "typescript";
+import { isTestFilePath } from "./settings";
+
+/**
+ * Kind of block discovered in a Playwright spec file
+ */
+export type TestBlockKind = "describe" | "test" | "step";
+
+/**
+ * Modifiers that can be chained onto `test`, `test.describe` and `test.step`
+ */
+export type TestModifier =
+  | "only"
+  | "skip"
+  | "fixme"
+  | "fail"
+  | "slow"
+  | "serial"
+  | "parallel";
+
+const MODIFIERS: ReadonlySet<string> = new Set<TestModifier>([
+  "only",
+  "skip",
+  "fixme",
+  "fail",
+  "slow",
+  "serial",
+  "parallel",
+]);
+
+/** Root identifiers treated as the Playwright `test` object */
+const TEST_IDENTIFIERS: ReadonlySet<string> = new Set(["test", "it"]);
+
+/** Matchers that compare against a stored baseline */
+export type SnapshotMatcher = "toHaveScreenshot" | "toMatchSnapshot";
+
+const SNAPSHOT_MATCHERS: ReadonlySet<string> = new Set<SnapshotMatcher>([
+  "toHaveScreenshot",
+  "toMatchSnapshot",
+]);
+
+/**
+ * A `toHaveScreenshot` or `toMatchSnapshot` call inside a test body
+ */
+export interface SnapshotAssertion {
+  matcher: SnapshotMatcher;
+  /**
+   * Name segments as written (`'hero.png'` or `['nav', 'menu.png']`), or
+   * undefined when Playwright generates the name
+   */
+  name?: string[];
+  /** Whether the name contains `${...}` placeholders only known at runtime */
+  dynamic: boolean;
+  /** Source text of the expect subject, e.g. `page` or `await page.screenshot()` */
+  subject: string;
+  range: vscode.Range;
+  line: number;
+}
+
+/**
+ * A describe block, test or step discovered in a spec file
+ */
+export interface TestBlock {
+  kind: TestBlockKind;
+  /** The block's own title (empty for anonymous describes) */
+  name: string;
+  /** Titles of the enclosing describe blocks followed by this block's title */
+  titlePath: string[];
+  /** `titlePath` joined with spaces, the way Playwright reports it */
+  fullTitle: string;
+  modifiers: TestModifier[];
+  /** Range of the whole call expression */
+  range: vscode.Range;
+  /** Range of the title argument, or of the callee when there is no title */
+  titleRange: vscode.Range;
+  startLine: number;
+  endLine: number;
+  children: TestBlock[];
+  /** Snapshot assertions in a test's body, including its steps, in source order */
+  snapshots: SnapshotAssertion[];
+}
+
+/**
+ * Work out whether a call expression is `test(...)`, `test.describe.only(...)`,
+ * `test.step(...)` and so on, returning its kind and modifiers
+ */
+function classifyCallee(
+  expression: ts.Expression
+): { kind: TestBlockKind; modifiers: TestModifier[] } | undefined {
+  const segments: string[] = [];
+  let current: ts.Expression = expression;
+
+  while (ts.isPropertyAccessExpression(current)) {
+    segments.unshift(current.name.text);
+    current = current.expression;
+  }
+
+  if (!ts.isIdentifier(current) || !TEST_IDENTIFIERS.has(current.text)) {
+    return undefined;
+  }
+
+  let kind: TestBlockKind = "test";
+  const modifiers: TestModifier[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (i === 0 && segment === "describe") {
+      kind = "describe";
+    } else if (i === 0 && segment === "step") {
+      kind = "step";
+    } else if (MODIFIERS.has(segment)) {
+      modifiers.push(segment as TestModifier);
+    } else {
+      // test.use, test.beforeEach, test.describe.configure, test.extend, ...
+      return undefined;
+    }
+  }
+
+  return { kind, modifiers };
+}
+
+/**
+ * Read a title argument as text. Template literals with substitutions keep
+ * their `${...}` placeholders verbatim since they can't be evaluated statically.
+ */
+function readTitle(node: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    const raw = node.getText(sourceFile);
+    return raw.substring(1, raw.length - 1);
+  }
+
+  if (ts.isParenthesizedExpression(node)) {
+    return readTitle(node.expression, sourceFile);
+  }
+
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken
+  ) {
+    const left = readTitle(node.left, sourceFile);
+    const right = readTitle(node.right, sourceFile);
+    if (left !== undefined && right !== undefined) {
+      return left + right;
+    }
+  }
+
+  return undefined;
+}
+
+function isCallback(node: ts.Expression): node is ts.ArrowFunction | ts.FunctionExpression {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+function toRange(sourceFile: ts.SourceFile, start: number, end: number): vscode.Range {
+  const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+  return new vscode.Range(startPos.line, startPos.character, endPos.line, endPos.character);
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  if (/\.[mc]?tsx$/.test(fileName)) {
+    return ts.ScriptKind.TSX;
+  }
+  if (/\.[mc]?jsx$/.test(fileName)) {
+    return ts.ScriptKind.JSX;
+  }
+  if (/\.[mc]?js$/.test(fileName)) {
+    return ts.ScriptKind.JS;
+  }
+  return ts.ScriptKind.TS;
+}
+
+/**
+ * Parse a spec file with the TypeScript compiler and return the tree of
+ * describe blocks, tests and steps it declares
+ */
+export function discoverTests(text: string, fileName: string): TestBlock[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+  const roots: TestBlock[] = [];
+
+  // `test` is the innermost enclosing test, which owns assertions in its steps
+  const visit = (node: ts.Node, parent: TestBlock | undefined, test: TestBlock | undefined) => {
+    if (ts.isCallExpression(node)) {
+      const block = createBlock(node, parent, sourceFile);
+      if (block) {
+        (parent ? parent.children : roots).push(block);
+        // Walk the arguments only; the callee is just `test.describe` etc.
+        const owner = block.kind === "test" ? block : test;
+        node.arguments.forEach((arg) => visit(arg, block, owner));
+        return;
+      }
+
+      const assertion = test && createSnapshotAssertion(node, sourceFile);
+      if (assertion) {
+        test!.snapshots.push(assertion);
+      }
+    }
+    ts.forEachChild(node, (child) => visit(child, parent, test));
+  };
+
+  visit(sourceFile, undefined, undefined);
+  return roots;
+}
+
+function createBlock(
+  node: ts.CallExpression,
+  parent: TestBlock | undefined,
+  sourceFile: ts.SourceFile
+): TestBlock | undefined {
+  const classified = classifyCallee(node.expression);
+  if (!classified) {
+    return undefined;
+  }
+
+  // The body is the last function argument: test('t', { tag }, async () => {})
+  const callback = [...node.arguments].reverse().find(isCallback);
+  if (!callback) {
+    // e.g. test.skip(condition, 'reason') or test.slow() inside a test body
+    return undefined;
+  }
+
+  const titleArg = node.arguments[0] !== callback ? node.arguments[0] : undefined;
+  if (!titleArg && classified.kind !== "describe") {
+    // Only describes may be anonymous; anything else is not a test declaration
+    return undefined;
+  }
+
+  // Titles computed at runtime (test(name, ...)) are kept as a placeholder
+  const name = titleArg
+    ? readTitle(titleArg, sourceFile) ?? `\${${titleArg.getText(sourceFile)}}`
+    : undefined;
+
+  const parentPath = parent ? parent.titlePath : [];
+  const titlePath = name ? [...parentPath, name] : [...parentPath];
+  const range = toRange(sourceFile, node.getStart(sourceFile), node.getEnd());
+  const titleNode = titleArg ?? node.expression;
+
+  return {
+    kind: classified.kind,
+    name: name ?? "",
+    titlePath,
+    fullTitle: titlePath.join(" "),
+    modifiers: classified.modifiers,
+    range,
+    titleRange: toRange(sourceFile, titleNode.getStart(sourceFile), titleNode.getEnd()),
+    startLine: range.start.line,
+    endLine: range.end.line,
+    children: [],
+    snapshots: [],
+  };
+}
+
+/**
+ * Strip `await`, parentheses and `expect(...)` wrappers down to the expect call
+ */
+function findExpectCall(node: ts.Expression): ts.CallExpression | undefined {
+  let current: ts.Expression = node;
+  // expect(page).not.toHaveScreenshot(), expect.soft(page).toHaveScreenshot()
+  while (ts.isPropertyAccessExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isCallExpression(current) ? current : undefined;
+}
+
+function createSnapshotAssertion(
+  node: ts.CallExpression,
+  sourceFile: ts.SourceFile
+): SnapshotAssertion | undefined {
+  if (!ts.isPropertyAccessExpression(node.expression) || !SNAPSHOT_MATCHERS.has(node.expression.name.text)) {
+    return undefined;
+  }
+
+  const expectCall = findExpectCall(node.expression.expression);
+  const subject = expectCall?.arguments[0]?.getText(sourceFile) ?? "";
+  const range = toRange(sourceFile, node.getStart(sourceFile), node.getEnd());
+  const assertion: SnapshotAssertion = {
+    matcher: node.expression.name.text as SnapshotMatcher,
+    dynamic: false,
+    subject,
+    range,
+    line: range.start.line,
+  };
+
+  // The first argument is the name unless it's the options object
+  const nameArg = node.arguments[0];
+  if (!nameArg || ts.isObjectLiteralExpression(nameArg)) {
+    return assertion;
+  }
+
+  const elements = ts.isArrayLiteralExpression(nameArg) ? [...nameArg.elements] : [nameArg];
+  assertion.name = elements.map((element) => {
+    const text = readTitle(element, sourceFile);
+    if (text === undefined) {
+      assertion.dynamic = true;
+      return `\${${element.getText(sourceFile)}}`;
+    }
+    if (text.includes("${")) {
+      assertion.dynamic = true;
+    }
+    return text;
+  });
+  return assertion;
+}
+
+/**
+ * Flatten a block tree depth-first, optionally keeping only one kind
+ */
+export function flattenTestBlocks(blocks: TestBlock[], kind?: TestBlockKind): TestBlock[] {
+  const flat: TestBlock[] = [];
+  const walk = (list: TestBlock[]) => {
+    for (const block of list) {
+      if (!kind || block.kind === kind) {
+        flat.push(block);
+      }
+      walk(block.children);
+    }
+  };
+  walk(blocks);
+  return flat;
+}
+
+/**
+ * Find the innermost block of the given kind that contains a line
+ */
+export function findBlockAtLine(
+  blocks: TestBlock[],
+  line: number,
+  kind: TestBlockKind = "test"
+): TestBlock | undefined {
+  let found: TestBlock | undefined;
+  for (const block of blocks) {
+    if (line < block.startLine || line > block.endLine) {
+      continue;
+    }
+    if (block.kind === kind) {
+      found = block;
+    }
+    found = findBlockAtLine(block.children, line, kind) ?? found;
+  }
+  return found;
+}
+
+/**
+ * Check a file's name and source for Playwright test usage
+ */
+export function isPlaywrightTestSource(fileName: string, text: string): boolean {
+  // Check file name pattern first
+  if (!isTestFilePath(fileName)) {
+    return false;
+  }
+
+  // Check for Playwright imports or usage
+  return (
+    text.includes("@playwright/test") ||
+    text.includes("playwright/test") ||
+    text.includes("import { test }") ||
+    text.includes("const { test }")
+  );
+}
+
+/**
+ * Caches discovered tests per document version, and per modification time
+ * for spec files that aren't open in an editor
+ */
+export class TestCache {
+  private cache: Map<string, { blocks: TestBlock[]; tests: TestBlock[]; version: number }> =
+    new Map();
+  private fileCache: Map<string, { blocks: TestBlock[]; mtime: number }> = new Map();
+
+  constructor(private outputChannel: vscode.OutputChannel) {}
+
+  /**
+   * Get every test (not describe or step) declared in the document
+   */
+  getTests(document: vscode.TextDocument): TestBlock[] {
+    return this.getEntry(document).tests;
+  }
+
+  /**
+   * Get the full describe/test/step tree declared in the document
+   */
+  getTestTree(document: vscode.TextDocument): TestBlock[] {
+    return this.getEntry(document).blocks;
+  }
+
+  /**
+   * Find the innermost test containing the given position
+   */
+  findTestAt(document: vscode.TextDocument, position: vscode.Position): TestBlock | undefined {
+    return findBlockAtLine(this.getEntry(document).blocks, position.line);
+  }
+
+  /**
+   * Get the test tree of a spec file, preferring the open editor's contents
+   * over what is on disk. Returns an empty tree for non-Playwright files.
+   */
+  async getTestTreeForFile(uri: vscode.Uri): Promise<TestBlock[]> {
+    const openDocument = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString()
+    );
+    if (openDocument) {
+      return isPlaywrightTestSource(openDocument.fileName, openDocument.getText())
+        ? this.getTestTree(openDocument)
+        : [];
+    }
+
+    const key = uri.toString();
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      const cached = this.fileCache.get(key);
+      if (cached && cached.mtime === stat.mtime) {
+        return cached.blocks;
+      }
+
+      const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+      const blocks = isPlaywrightTestSource(uri.fsPath, text)
+        ? discoverTests(text, uri.fsPath)
+        : [];
+      this.fileCache.set(key, { blocks, mtime: stat.mtime });
+      return blocks;
+    } catch (error) {
+      this.outputChannel.appendLine(`Error discovering tests in ${uri.fsPath}: ${error}`);
+      this.fileCache.delete(key);
+      return [];
+    }
+  }
+
+  private getEntry(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    const cached = this.cache.get(key);
+
+    if (cached && cached.version === document.version) {
+      return cached;
+    }
+
+    let blocks: TestBlock[] = [];
+    try {
+      blocks = discoverTests(document.getText(), document.fileName);
+    } catch (error) {
+      this.outputChannel.appendLine(`Error discovering tests in ${document.fileName}: ${error}`);
+    }
+
+    const entry = {
+      blocks,
+      tests: flattenTestBlocks(blocks, "test"),
+      version: document.version,
+    };
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  clear(document: vscode.TextDocument) {
+    this.cache.delete(document.uri.toString());
+    this.fileCache.delete(document.uri.toString());
+  }
+
+  clearAll() {
+    this.cache.clear();
+    this.fileCache.clear();
+  }
+}
+
+/**
+ * Whether the title path contains runtime placeholders (`${...}`) that
+ * can't be matched literally
+ */
+export function hasDynamicTitle(block: TestBlock): boolean {
+  return block.titlePath.some((title) => title.includes("${"));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build a `--grep` pattern matching exactly this block's describe chain and
+ * title, or undefined when the title is only known at runtime
+ */
+export function getTestGrepPattern(block: TestBlock): string | undefined {
+  if (hasDynamicTitle(block) || block.titlePath.length === 0) {
+    return undefined;
+  }
+  return escapeRegExp(block.fullTitle);
+}
@@ -1,10 +1,25 @@
 import * as vscode from "vscode";
 import { dirname, join, basename, isAbsolute, relative, normalize, sep } from "path";
-import { existsSync, readFileSync } from "fs";
-import { glob } from "glob";
+import { existsSync, readFileSync, statSync } from "fs";
+import { findAllPlaywrightConfigs, findNearestPlaywrightConfig, resolvePlaywrightConfig } from "./playwrightConfig";
+import { getSettings } from "./settings";
+import { collectReportSpecs, getErrorMessages, isJSONReport, JSONReport, JSONReportShard, TITLE_SEPARATOR } from "./jsonReport";
+import { diffPngFiles, formatDiffSummary } from "./imageDiff";
+import { isJUnitReportFile, parseJUnitReport } from "./junitReport";
+import { ReviewItem, SnapshotReview } from "./snapshotReview";
+import { onDidChangeSnapshotFiles } from "./snapshotWatcher";
 
 let outputChannel: vscode.OutputChannel;
 
+/** Screenshot comparisons in progress for each open gallery */
+const diffJobs = new WeakMap<vscode.WebviewPanel, { cancelled: boolean }>();
+
+/** Review session over the results each gallery shows */
+const reviews = new WeakMap<vscode.WebviewPanel, SnapshotReview>();
+
+/** Tile markup by test item ID for each open gallery */
+const renderedResults = new WeakMap<vscode.WebviewPanel, Map<string, string>>();
+
 /**
  * Represents a discovered test results location
  */
@@ -36,14 +51,8 @@ async function findAllTestResultsFiles(): Promise<TestResultsLocation[]> {
   
   const foundFiles = new Set<string>();
   
-  // Use VS Code's fast file search for different result file patterns
-  const patterns = [
-    '**/test-results.json',
-    '**/test-results/results.json',
-    '**/playwright-report/results.json'
-  ];
-  
-  for (const pattern of patterns) {
+  // Use VS Code's fast file search for the configured result file patterns
+  for (const pattern of getSettings().resultsFiles) {
     const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
     files.forEach(f => foundFiles.add(f.fsPath));
   }
@@ -53,12 +62,9 @@ async function findAllTestResultsFiles(): Promise<TestResultsLocation[]> {
   for (const filePath of foundFiles) {
     // Verify it's a valid JSON file with test results structure
     try {
-      const content = readFileSync(filePath, 'utf8');
-      const json = JSON.parse(content);
+      const json = await readResultsFile(filePath);
       
-      // Basic validation - check if it looks like test results
-      if (json && (json.suites || json.tests || json.results || 
-          Object.keys(json).some(k => k.toLowerCase().includes('test')))) {
+      if (isTestResultsJson(json)) {
         
         // Find which workspace folder this file belongs to
         const workspaceFolder = workspaceFolders.find(f => filePath.startsWith(f.uri.fsPath));
@@ -93,6 +99,13 @@ async function findAllTestResultsFiles(): Promise<TestResultsLocation[]> {
     }
   }
   
+  // Several packages in one workspace folder need their paths to tell them apart
+  for (const location of locations) {
+    if (locations.some(other => other !== location && other.displayName === location.displayName)) {
+      location.displayName = location.relativePath;
+    }
+  }
+
   // Sort by workspace name then by path
   locations.sort((a, b) => {
     return a.displayName.localeCompare(b.displayName);
@@ -174,24 +187,19 @@ export async function openTestResultsGallery(providedOutputChannel?: vscode.Outp
     // Find all test results files across ALL workspace folders
     const allLocations = await findAllTestResultsFiles();
     
-    // Also check the Playwright config in each workspace folder for configured reporter paths
-    for (const folder of workspaceFolders) {
-      const folderPath = folder.uri.fsPath;
-      const configPath = await findPlaywrightConfig(folderPath);
-      if (configPath) {
-        const jsonReporterPath = await getJsonReporterPath(configPath, folderPath);
-        if (jsonReporterPath && existsSync(jsonReporterPath)) {
-          const alreadyFound = allLocations.some(loc => loc.path === jsonReporterPath);
-          if (!alreadyFound) {
-            const relativePath = relative(folderPath, jsonReporterPath);
-            const displayName = workspaceFolders.length > 1 ? folder.name : relativePath;
-            allLocations.unshift({
-              path: jsonReporterPath,
-              relativePath: workspaceFolders.length > 1 ? `${folder.name}/${relativePath}` : relativePath,
-              displayName,
-              baseDir: dirname(jsonReporterPath)
-            });
-          }
+    // Also check every Playwright config in the workspace for configured reporter paths
+    for (const configPath of await findAllPlaywrightConfigs()) {
+      const jsonReporterPath = await getJsonReporterPath(configPath);
+      if (jsonReporterPath && existsSync(jsonReporterPath)) {
+        const alreadyFound = allLocations.some(loc => loc.path === jsonReporterPath);
+        if (!alreadyFound) {
+          const relativePath = vscode.workspace.asRelativePath(jsonReporterPath, workspaceFolders.length > 1);
+          allLocations.unshift({
+            path: jsonReporterPath,
+            relativePath,
+            displayName: relativePath,
+            baseDir: dirname(jsonReporterPath)
+          });
         }
       }
     }
@@ -249,6 +257,80 @@ export async function openTestResultsGallery(providedOutputChannel?: vscode.Outp
   }
 }
 
+/**
+ * Open the gallery on a results file that isn't one of the workspace's
+ * reports, e.g. one merged from CI artifacts. `attachmentsDir` is where the
+ * gallery may load images from, the results file's directory by default.
+ */
+export async function openImportedTestResults(
+  path: string,
+  displayName: string,
+  providedOutputChannel: vscode.OutputChannel,
+  attachmentsDir: string = dirname(path)
+) {
+  outputChannel = providedOutputChannel;
+  const location: TestResultsLocation = {
+    path,
+    relativePath: displayName,
+    displayName,
+    baseDir: attachmentsDir
+  };
+  await openGalleryWithResults(location, [location], location.baseDir);
+}
+
+/**
+ * Test results read from one report file
+ */
+export interface LatestTestResults {
+  path: string;
+  /** Directory of the playwright.config the report belongs to, when there is one */
+  configRoot?: string;
+  results: TestResult[];
+}
+
+/**
+ * Screenshot results from the most recently written test results file of
+ * each Playwright config in the workspace, for views that reflect the latest
+ * run. A run in one package doesn't hide the results of another.
+ */
+export async function loadLatestTestResults(
+  providedOutputChannel: vscode.OutputChannel
+): Promise<LatestTestResults[]> {
+  outputChannel ??= providedOutputChannel;
+
+  const candidates = new Set((await findAllTestResultsFiles()).map(location => location.path));
+  for (const configPath of await findAllPlaywrightConfigs()) {
+    const jsonReporterPath = await getJsonReporterPath(configPath);
+    if (jsonReporterPath) {
+      candidates.add(jsonReporterPath);
+    }
+  }
+
+  // Newest report per config root
+  const latestByRoot = new Map<string | undefined, string>();
+  const existing = [...candidates]
+    .filter(path => existsSync(path))
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs);
+  for (const path of existing) {
+    const configPath = findNearestPlaywrightConfig(path);
+    const configRoot = configPath && dirname(configPath);
+    if (!latestByRoot.has(configRoot)) {
+      latestByRoot.set(configRoot, path);
+    }
+  }
+
+  const latest: LatestTestResults[] = [];
+  for (const [configRoot, path] of latestByRoot) {
+    try {
+      const resultsJson = await readResultsFile(path);
+      latest.push({ path, configRoot, results: processTestResults(resultsJson, dirname(path), path) });
+    } catch (error) {
+      outputChannel.appendLine(`Error reading test results ${path}: ${error}`);
+    }
+  }
+  return latest;
+}
+
 /**
  * Opens the gallery panel with specific test results
  */
@@ -332,6 +414,63 @@ async function openGalleryWithResults(
           }
           break;
           
+        case 'reviewDecision': {
+          const review = reviews.get(panel);
+          if (!review) {
+            break;
+          }
+          try {
+            await review.decide(message.testId, message.decision);
+            panel.webview.postMessage({
+              command: 'reviewState',
+              testId: message.testId,
+              decision: message.decision,
+              advance: true,
+              ...review.progress
+            });
+          } catch (error) {
+            outputChannel.appendLine(`Error reviewing ${message.testId}: ${error}`);
+            vscode.window.showErrorMessage(`Could not update the baseline: ${error instanceof Error ? error.message : error}`);
+          }
+          break;
+        }
+          
+        case 'acceptAllVisible': {
+          const review = reviews.get(panel);
+          if (review) {
+            await acceptAll(panel, review, message.testIds, workspaceRoot);
+          }
+          break;
+        }
+          
+        case 'reviewUndo': {
+          const review = reviews.get(panel);
+          try {
+            const undone = review?.undo();
+            if (review && undone) {
+              panel.webview.postMessage({
+                command: 'reviewState',
+                testId: undone.id,
+                decision: undone.decision,
+                reopen: true,
+                ...review.progress
+              });
+            }
+          } catch (error) {
+            outputChannel.appendLine(`Error undoing review decision: ${error}`);
+            vscode.window.showErrorMessage(`Could not restore the baseline: ${error}`);
+          }
+          break;
+        }
+          
+        case 'reviewProgress': {
+          const review = reviews.get(panel);
+          if (review) {
+            panel.webview.postMessage({ command: 'reviewState', ...review.progress });
+          }
+          break;
+        }
+          
         case 'getImageUris':
           try {
             // Convert file paths to webview URIs
@@ -393,6 +532,23 @@ async function openGalleryWithResults(
     []
   );
 
+  // Follow the report as runs rewrite it
+  const filesSubscription = onDidChangeSnapshotFiles(async (changes) => {
+    if (!changes.reports.includes(normalize(currentLocation.path))) {
+      return;
+    }
+    outputChannel.appendLine(`Test results changed, updating failed test gallery: ${currentLocation.displayName}`);
+    await updateDisplayedResults(panel, currentLocation, allLocations, workspaceRoot);
+  });
+  panel.onDidDispose(() => {
+    filesSubscription.dispose();
+    reviews.get(panel)?.dispose();
+    const job = diffJobs.get(panel);
+    if (job) {
+      job.cancelled = true;
+    }
+  });
+
   // Load and display the results
   await loadAndDisplayResults(panel, currentLocation, allLocations, workspaceRoot);
 }
@@ -411,11 +567,10 @@ async function loadAndDisplayResults(
   let testResultsJson: any = null;
   
   try {
-    const content = readFileSync(selectedLocation.path, 'utf8');
-    testResultsJson = JSON.parse(content);
-    outputChannel.appendLine(`Successfully parsed JSON from: ${selectedLocation.path}`);
+    testResultsJson = await readResultsFile(selectedLocation.path);
+    outputChannel.appendLine(`Successfully parsed test results from: ${selectedLocation.path}`);
   } catch (error) {
-    outputChannel.appendLine(`Error parsing JSON: ${error}`);
+    outputChannel.appendLine(`Error parsing test results: ${error}`);
     panel.webview.html = getNoResultsHtml('no-file');
     vscode.window.showErrorMessage(`Failed to parse test results: ${error}`);
     return;
@@ -425,15 +580,9 @@ async function loadAndDisplayResults(
   const testResults = processTestResults(testResultsJson, workspaceRoot, selectedLocation.path);
   
   if (testResults.length === 0) {
-    // Determine if we have tests but no screenshots or just no failed tests
-    const hasTests = testResultsJson.tests?.length > 0 || 
-                    (testResultsJson.suites && Array.isArray(testResultsJson.suites) && testResultsJson.suites.length > 0) ||
-                    Object.keys(testResultsJson).some(key => 
-                      key.toLowerCase().includes('test') || 
-                      key.toLowerCase().includes('spec') ||
-                      key.toLowerCase().includes('case'));
-                      
-    if (hasTests) {
+    renderedResults.delete(panel);
+    
+    if (hasFailedTests(testResultsJson)) {
       panel.webview.html = getNoResultsHtml('no-screenshots');
       vscode.window.showErrorMessage("No test results with screenshots found");
     } else {
@@ -449,160 +598,264 @@ async function loadAndDisplayResults(
   // Generate HTML for the gallery view with result set selector
   const htmlContent = generateGalleryHtml(testResults, panel, workspaceRoot, selectedLocation, allLocations);
   panel.webview.html = htmlContent;
+
+  startReview(panel, testResults, workspaceRoot);
+  postDiffStats(panel, testResults);
 }
 
 /**
- * Find the Playwright config file in the workspace
+ * Apply a rewritten report to an open gallery without re-rendering it:
+ * changed results get fresh tiles, vanished ones are removed. A new run
+ * starts a new review.
  */
-async function findPlaywrightConfig(workspaceRoot: string): Promise<string | undefined> {
-  const configFiles = [
-    join(workspaceRoot, "playwright.config.ts"),
-    join(workspaceRoot, "playwright.config.js"),
-    join(workspaceRoot, "playwright.config.mjs"),
-    join(workspaceRoot, "playwright.config.cjs")
-  ];
+async function updateDisplayedResults(
+  panel: vscode.WebviewPanel,
+  location: TestResultsLocation,
+  allLocations: TestResultsLocation[],
+  workspaceRoot: string
+) {
+  const rendered = renderedResults.get(panel);
+  let testResults: TestResult[] = [];
+  try {
+    testResults = processTestResults(await readResultsFile(location.path), workspaceRoot, location.path);
+  } catch (error) {
+    // Usually caught mid-write; the watcher fires again once it's complete
+    outputChannel.appendLine(`Could not read updated test results: ${error}`);
+    return;
+  }
+
+  // Nothing to patch: show the empty state, or render from scratch
+  if (!rendered || testResults.length === 0) {
+    await loadAndDisplayResults(panel, location, allLocations, workspaceRoot);
+    return;
+  }
 
-  for (const configFile of configFiles) {
-    if (existsSync(configFile)) {
-      return configFile;
+  const next = new Map<string, { result: TestResult; html: string }>();
+  for (const result of testResults) {
+    const html = getTestItemHtml(result, panel);
+    if (html) {
+      next.set(getTestItemId(result), { result, html });
     }
   }
-  
-  // If not found in root, try to find it with glob
-  // Normalize path for glob (prefers forward slashes even on Windows)
-  const configPattern = join(workspaceRoot, "**/playwright.config.{ts,js,mjs,cjs}").replace(/\\/g, '/');
-  const configPaths = await glob(configPattern);
-  return configPaths.length > 0 ? configPaths[0] : undefined;
+
+  const removed = [...rendered.keys()].filter(id => !next.has(id));
+  const upserted = [...next.entries()]
+    .filter(([id, { html }]) => rendered.get(id) !== html)
+    .map(([id, { result, html }]) => {
+      const file = result.testFile || 'Unknown';
+      return { id, file, html, groupHtml: getTestGroupHtml(file) + '</div></div>' };
+    });
+  if (removed.length === 0 && upserted.length === 0) {
+    return;
+  }
+
+  renderedResults.set(panel, new Map([...next.entries()].map(([id, { html }]) => [id, html])));
+  startReview(panel, testResults, workspaceRoot);
+  panel.webview.postMessage({
+    command: 'resultsChanged',
+    removed,
+    upserted,
+    total: next.size,
+    progress: reviews.get(panel)!.progress,
+  });
+  postDiffStats(panel, upserted.map(({ id }) => next.get(id)!.result));
 }
 
 /**
- * Parse the Playwright config to find the JSON reporter output file path
+ * Start a fresh review session over every result with an actual screenshot
  */
-async function getJsonReporterPath(configPath: string, workspaceRoot: string): Promise<string | undefined> {
-  try {
-    const configContent = readFileSync(configPath, 'utf8');
-    outputChannel.appendLine(`Parsing Playwright config for reporter configuration...`);
-    
-    // Log a snippet of the config for debugging
-    const configSnippet = configContent.length > 500 
-      ? configContent.substring(0, 500) + '...' 
-      : configContent;
-    outputChannel.appendLine(`Config snippet: ${configSnippet}`);
-    
-    // Try to match the specific pattern in the user's config first (highest priority)
-    // reporter: [['html'], ['./tests/reporters/custom-json-reporter.ts', { outputFile: 'test-results/test-results.json' }]]
-    const specificPatternRegex = /reporter\s*:.*?\[\s*\[.*?\]\s*,\s*\[\s*['"`](.*?)['"`]\s*,\s*{\s*outputFile\s*:\s*['"`](.*?)['"`]/s;
-    const specificMatch = configContent.match(specificPatternRegex);
-    
-    if (specificMatch && specificMatch[2]) {
-      const reporterPath = specificMatch[1];
-      const outputFile = specificMatch[2];
-      outputChannel.appendLine(`Found specific pattern with reporter: ${reporterPath} and outputFile: ${outputFile}`);
-      const resolvedPath = join(workspaceRoot, outputFile);
-      outputChannel.appendLine(`Resolved output path: ${resolvedPath}`);
-      
-      // Check if file exists
-      if (existsSync(resolvedPath)) {
-        outputChannel.appendLine(`Custom reporter output file exists at: ${resolvedPath}`);
-        return resolvedPath;
-      } else {
-        outputChannel.appendLine(`Custom reporter output file does not exist at: ${resolvedPath}`);
-      }
+function startReview(panel: vscode.WebviewPanel, testResults: TestResult[], workspaceRoot: string) {
+  reviews.get(panel)?.dispose();
+
+  const items: ReviewItem[] = [];
+  for (const result of testResults) {
+    const actual = result.screenshotSet?.actual?.path;
+    if (!actual || !existsSync(actual)) {
+      continue;
     }
-    
-    // First, try to find any reporter with an outputFile parameter
-    // This will match custom reporters too, not just the standard json reporter
-    const customReporterRegex = /reporter\s*:.*?\[\s*\[.*?\]\s*,\s*\[\s*['"`](.*?)['"`]\s*,\s*{\s*outputFile\s*:\s*['"`](.*?)['"`]/s;
-    const customMatch = configContent.match(customReporterRegex);
-    
-    if (customMatch && customMatch[2]) {
-      const reporterPath = customMatch[1];
-      const outputFile = customMatch[2];
-      outputChannel.appendLine(`Found custom reporter: ${reporterPath} with outputFile: ${outputFile}`);
-      const resolvedPath = join(workspaceRoot, outputFile);
-      outputChannel.appendLine(`Resolved output path: ${resolvedPath}`);
-      
-      // Check if file exists
-      if (existsSync(resolvedPath)) {
-        outputChannel.appendLine(`Custom reporter output file exists at: ${resolvedPath}`);
-        return resolvedPath;
-      } else {
-        outputChannel.appendLine(`Custom reporter output file does not exist at: ${resolvedPath}`);
-      }
+    // Decisions are made by ID, so a second item with the same one could never be reached
+    const id = getTestItemId(result);
+    if (items.some((item) => item.id === id)) {
+      outputChannel.appendLine(`Not reviewing ${result.name} in ${result.testFile}: another result has the ID ${id}`);
+      continue;
     }
-    
-    // Look for JSON reporter configuration (standard format)
-    const jsonReporterRegex = /reporter\s*:.*?\[\s*['"`]json['"`]\s*,\s*{\s*outputFile\s*:\s*['"`](.*?)['"`]/s;
-    const match = configContent.match(jsonReporterRegex);
-    
-    if (match && match[1]) {
-      // Get the output file path and resolve it relative to workspace root
-      const outputFile = match[1];
-      outputChannel.appendLine(`Found standard json reporter with outputFile: ${outputFile}`);
-      const resolvedPath = join(workspaceRoot, outputFile);
-      outputChannel.appendLine(`Resolved output path: ${resolvedPath}`);
-      
-      // Check if file exists
-      if (existsSync(resolvedPath)) {
-        outputChannel.appendLine(`Standard reporter output file exists at: ${resolvedPath}`);
-        return resolvedPath;
-      } else {
-        outputChannel.appendLine(`Standard reporter output file does not exist at: ${resolvedPath}`);
-      }
+    items.push({
+      id,
+      testName: result.name,
+      testFile: result.location?.file || result.testFile,
+      line: result.location?.line,
+      projectName: result.projectName,
+      actual,
+      expected: result.screenshotSet?.expected?.path,
+    });
+  }
+
+  reviews.set(panel, new SnapshotReview(items, workspaceRoot, outputChannel));
+}
+
+/**
+ * Compare each result's expected and actual screenshots in the background
+ * and send the mismatch numbers to the gallery as they're ready. A newer
+ * load of the same panel cancels the previous one.
+ */
+async function postDiffStats(panel: vscode.WebviewPanel, testResults: TestResult[]) {
+  const previous = diffJobs.get(panel);
+  if (previous) {
+    previous.cancelled = true;
+  }
+  const job = { cancelled: false };
+  diffJobs.set(panel, job);
+
+  for (const result of testResults) {
+    const { expected, actual } = result.screenshotSet ?? {};
+    if (!expected || !actual || !existsSync(expected.path) || !existsSync(actual.path)) {
+      continue;
     }
-    
-    // Try alternative format: reporter: [['json', { outputFile: 'path' }]]
-    const altJsonReporterRegex = /reporter\s*:.*?\[\s*\[\s*['"`]json['"`]\s*,\s*{\s*outputFile\s*:\s*['"`](.*?)['"`]/s;
-    const altMatch = configContent.match(altJsonReporterRegex);
-    
-    if (altMatch && altMatch[1]) {
-      outputChannel.appendLine(`Found alternative json reporter format with outputFile: ${altMatch[1]}`);
-      const resolvedPath = join(workspaceRoot, altMatch[1]);
-      outputChannel.appendLine(`Resolved output path: ${resolvedPath}`);
-      
-      // Check if file exists
-      if (existsSync(resolvedPath)) {
-        outputChannel.appendLine(`Alternative reporter output file exists at: ${resolvedPath}`);
-        return resolvedPath;
-      } else {
-        outputChannel.appendLine(`Alternative reporter output file does not exist at: ${resolvedPath}`);
-      }
+
+    await new Promise((resolve) => setImmediate(resolve));
+    if (job.cancelled) {
+      return;
     }
-    
-    // Generic approach: look for any outputFile in the reporter section
-    const genericOutputFileRegex = /reporter\s*:.*?outputFile\s*:\s*['"`](.*?)['"`]/s;
-    const genericMatch = configContent.match(genericOutputFileRegex);
-    
-    if (genericMatch && genericMatch[1]) {
-      outputChannel.appendLine(`Found generic outputFile in reporter section: ${genericMatch[1]}`);
-      const resolvedPath = join(workspaceRoot, genericMatch[1]);
-      outputChannel.appendLine(`Resolved output path: ${resolvedPath}`);
-      
-      // Check if file exists
+
+    try {
+      const comparison = await diffPngFiles(expected.path, actual.path);
+      panel.webview.postMessage({
+        command: 'diffStats',
+        testId: getTestItemId(result),
+        label: comparison.mismatchedPixels === 0 ? 'no diff' : `${comparison.mismatchPercentage.toFixed(2)}% diff`,
+        summary: formatDiffSummary(comparison),
+      });
+    } catch (error) {
+      outputChannel.appendLine(`Could not compare screenshots for ${result.name}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Accept several screenshots at once after confirming the baselines that
+ * will be written, then log what happened. When several screenshots resolve
+ * to the same baseline, only the latest one is accepted.
+ */
+async function acceptAll(panel: vscode.WebviewPanel, review: SnapshotReview, testIds: string[], workspaceRoot: string) {
+  const byBaseline = new Map<string, { id: string; baseline: string; written: number }>();
+  const unresolved: string[] = [];
+  const superseded: string[] = [];
+  for (const id of testIds) {
+    const baseline = await review.getBaseline(id);
+    if (!baseline) {
+      unresolved.push(review.getItem(id)?.testName ?? id);
+      continue;
+    }
+    const actual = review.getItem(id)?.actual;
+    const written = actual && existsSync(actual) ? statSync(actual).mtimeMs : 0;
+    const key = normalize(baseline);
+    const previous = byBaseline.get(key);
+    if (previous && previous.written >= written) {
+      superseded.push(actual ?? id);
+      continue;
+    }
+    if (previous) {
+      superseded.push(review.getItem(previous.id)?.actual ?? previous.id);
+    }
+    byBaseline.set(key, { id, baseline, written });
+  }
+  const targets = [...byBaseline.values()];
+
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage(
+      unresolved.length > 0 ? "Could not work out the baselines for the visible screenshots" : "No visible screenshots to accept"
+    );
+    return;
+  }
+
+  const files = targets.map(({ baseline }) =>
+    `${existsSync(baseline) ? "Overwrite" : "Create"} ${relative(workspaceRoot, baseline)}`
+  );
+  const shown = files.length > 30 ? [...files.slice(0, 30), `…and ${files.length - 30} more`] : files;
+  const choice = await vscode.window.showWarningMessage(
+    `Accept ${targets.length} screenshot${targets.length === 1 ? '' : 's'} as new baseline${targets.length === 1 ? '' : 's'}?`,
+    { modal: true, detail: shown.join('\n') },
+    "Accept All"
+  );
+  if (choice !== "Accept All") {
+    return;
+  }
+
+  outputChannel.appendLine(`Accepting ${targets.length} visible screenshots`);
+  const failed: string[] = [];
+  for (const { id, baseline } of targets) {
+    try {
+      await review.decide(id, 'accepted');
+      panel.webview.postMessage({ command: 'reviewState', testId: id, decision: 'accepted', ...review.progress });
+    } catch (error) {
+      failed.push(baseline);
+      outputChannel.appendLine(`  Failed: ${baseline}: ${error}`);
+    }
+  }
+
+  const accepted = targets.length - failed.length;
+  outputChannel.appendLine(`Accepted ${accepted} of ${targets.length} screenshots`);
+  for (const name of unresolved) {
+    outputChannel.appendLine(`  Skipped "${name}": baseline could not be resolved`);
+  }
+  for (const actual of superseded) {
+    outputChannel.appendLine(`  Skipped ${actual}: a later screenshot has the same baseline`);
+  }
+
+  const message = `Accepted ${accepted} screenshot${accepted === 1 ? '' : 's'}` +
+    (failed.length + unresolved.length > 0 ? `; ${failed.length + unresolved.length} could not be accepted` : '');
+  const action = await vscode.window.showInformationMessage(message, "Show Output");
+  if (action === "Show Output") {
+    outputChannel.show();
+  }
+}
+
+/**
+ * Element ID of a result's gallery tile
+ */
+function getTestItemId(result: TestResult): string {
+  // The same test runs once per project, and titles may repeat within a file
+  const project = result.projectName ? `-${result.projectName.replace(/[^a-zA-Z0-9]/g, '-')}` : '';
+  const line = result.location?.line !== undefined ? `-${result.location.line}` : '';
+  return `test-${result.testFile.replace(/[^a-zA-Z0-9]/g, '-')}${line}-${result.name.replace(/[^a-zA-Z0-9]/g, '-')}${project}`;
+}
+
+/**
+ * Find the JSON reporter output file configured in the resolved Playwright
+ * config, or the junit reporter's when there's no JSON output
+ */
+async function getJsonReporterPath(configPath: string): Promise<string | undefined> {
+  const config = await resolvePlaywrightConfig(configPath);
+  if (config) {
+    // Any reporter writing a JSON outputFile counts: the built-in json
+    // reporter as well as custom reporters that emit the same format
+    const hasOutputFile = ([, options]: [string, any]) => typeof options?.outputFile === 'string';
+    const reporters = [
+      ...config.reporters.filter(reporter => hasOutputFile(reporter) && reporter[1].outputFile.endsWith('.json')),
+      ...config.reporters.filter(reporter => hasOutputFile(reporter) && reporter[0] === 'junit'),
+    ];
+    for (const [name, options] of reporters) {
+      const outputFile: string = options.outputFile;
+
+      // Playwright resolves outputFile relative to the config file
+      const resolvedPath = isAbsolute(outputFile) ? outputFile : join(dirname(configPath), outputFile);
+      outputChannel.appendLine(`Found reporter ${name} with outputFile: ${resolvedPath}`);
       if (existsSync(resolvedPath)) {
-        outputChannel.appendLine(`Generic reporter output file exists at: ${resolvedPath}`);
         return resolvedPath;
-      } else {
-        outputChannel.appendLine(`Generic reporter output file does not exist at: ${resolvedPath}`);
       }
+      outputChannel.appendLine(`Reporter output file does not exist at: ${resolvedPath}`);
     }
-    
-    // Specific hard-coded fallback for the known pattern
-    outputChannel.appendLine(`Trying hard-coded fallback for test-results/test-results.json`);
-    const hardcodedPath = join(workspaceRoot, 'test-results', 'test-results.json');
-    if (existsSync(hardcodedPath)) {
-      outputChannel.appendLine(`Found fallback file at: ${hardcodedPath}`);
-      return hardcodedPath;
-    } else {
-      outputChannel.appendLine(`Fallback file not found at: ${hardcodedPath}`);
-    }
-    
-    outputChannel.appendLine(`No reporter with outputFile found in config`);
-    return undefined;
-  } catch (error) {
-    outputChannel.appendLine(`Error parsing Playwright config: ${error}`);
-    return undefined;
   }
+
+  // Fall back to the conventional location
+  const fallbackPath = join(dirname(configPath), getSettings().outputDirectory, 'test-results.json');
+  if (existsSync(fallbackPath)) {
+    outputChannel.appendLine(`Found fallback file at: ${fallbackPath}`);
+    return fallbackPath;
+  }
+
+  outputChannel.appendLine(`No reporter with outputFile found in config`);
+  return undefined;
 }
 
 /**
@@ -634,8 +887,8 @@ function resolveAttachmentPath(originalPath: string, workspaceRoot: string, resu
   // Try to find common path segments
   const pathSegments = originalPath.split(/[/\\]/);
   
-  // Look for 'test-results' segment
-  const testResultsIndex = pathSegments.lastIndexOf('test-results');
+  // Look for the output directory's segment ('test-results' by default)
+  const testResultsIndex = pathSegments.lastIndexOf(basename(getSettings().outputDirectory));
   if (testResultsIndex !== -1 && testResultsIndex < pathSegments.length - 1) {
     // Extract everything after 'test-results'
     const relativePart = pathSegments.slice(testResultsIndex + 1).join(sep);
@@ -658,7 +911,7 @@ function resolveAttachmentPath(originalPath: string, workspaceRoot: string, resu
   const fileName = basename(originalPath);
   const alternativePaths = [
     join(testResultsDir, fileName),
-    join(workspaceRoot, 'test-results', fileName),
+    join(workspaceRoot, getSettings().outputDirectory, fileName),
     join(workspaceRoot, 'playwright-report', fileName),
   ];
   
@@ -678,602 +931,431 @@ function resolveAttachmentPath(originalPath: string, workspaceRoot: string, resu
 }
 
 /**
- * Process the test results JSON to extract test information and screenshots
+ * Parse a results file: JSON as written, and the junit reporter's XML as a
+ * JSON report
+ */
+async function readResultsFile(path: string): Promise<any> {
+  const content = readFileSync(path, 'utf8');
+  return isJUnitReportFile(path) ? parseJUnitReport(content, path, outputChannel) : JSON.parse(content);
+}
+
+/**
+ * Screenshot results from a parsed results file: a Playwright JSON report, or
+ * one of the formats older custom reporters wrote
  */
 function processTestResults(resultsJson: any, workspaceRoot: string, resultsFilePath: string): TestResult[] {
+  if (isJSONReport(resultsJson)) {
+    return processJSONReport(resultsJson, workspaceRoot, resultsFilePath);
+  }
+
+  const adapter = RESULTS_ADAPTERS.find(candidate => candidate.matches(resultsJson));
+  if (!adapter) {
+    outputChannel.appendLine(`Unrecognized test results format with keys: ${Object.keys(resultsJson ?? {}).join(', ')}`);
+    return [];
+  }
+
+  outputChannel.appendLine(`Reading ${resultsFilePath} as ${adapter.name}`);
+  const testResults = adapter.process(resultsJson, workspaceRoot, resultsFilePath);
+  outputChannel.appendLine(`Found ${testResults.length} test results with screenshots`);
+  return testResults;
+}
+
+/**
+ * Whether parsed JSON looks like test results in any format the gallery reads
+ */
+function isTestResultsJson(json: any): boolean {
+  return isJSONReport(json) || RESULTS_ADAPTERS.some(adapter => adapter.matches(json));
+}
+
+/**
+ * Whether test results without screenshots still contain failed tests, to
+ * tell "no screenshots" apart from "nothing failed"
+ */
+function hasFailedTests(json: any): boolean {
+  if (isJSONReport(json)) {
+    return collectReportSpecs(json).some(({ spec }) => spec.tests.some(test => test.status === 'unexpected'));
+  }
+  return RESULTS_ADAPTERS.some(adapter => adapter.matches(json));
+}
+
+/**
+ * One gallery result per test and project in a Playwright JSON report, with
+ * every attempt at it
+ */
+function processJSONReport(report: JSONReport, workspaceRoot: string, resultsFilePath: string): TestResult[] {
   const testResults: TestResult[] = [];
-  
-  // Log the structure to help with debugging
-  outputChannel.appendLine(`Processing test results JSON with keys: ${Object.keys(resultsJson).join(', ')}`);
-  
-  // Special handling for test-results/test-results.json format which might have a different structure
-  if (Object.keys(resultsJson).length > 0 && !resultsJson.suites && !resultsJson.tests && !resultsJson.results) {
-    outputChannel.appendLine(`Handling possibly custom JSON format with keys: ${Object.keys(resultsJson).join(', ')}`);
-    
-    // Try to identify any structure that might contain tests and screenshots
-    // This is a more exhaustive approach for custom formats
-    
-    // Look for any keys that contain 'test' in their name
-    const testKeys = Object.keys(resultsJson).filter(key => 
-      key.toLowerCase().includes('test') || 
-      key.toLowerCase().includes('spec') ||
-      key.toLowerCase().includes('case')
+
+  if (report.stats) {
+    const { expected, unexpected, flaky, skipped } = report.stats;
+    outputChannel.appendLine(
+      `Playwright JSON report: ${expected} passed, ${unexpected} failed, ${flaky} flaky, ${skipped} skipped`
     );
-    
-    if (testKeys.length > 0) {
-      outputChannel.appendLine(`Found potential test keys: ${testKeys.join(', ')}`);
-      
-      for (const key of testKeys) {
-        if (Array.isArray(resultsJson[key])) {
-          outputChannel.appendLine(`Found array at key '${key}' with ${resultsJson[key].length} items`);
-          
-          // Process each item in the array as a potential test
-          for (const item of resultsJson[key]) {
-            outputChannel.appendLine(`Processing possible test with keys: ${Object.keys(item).join(', ')}`);
-            
-            // Look for attachments
-            let attachments: Array<{name?: string, path?: string, contentType?: string, body?: string}> = [];
-            
-            // Check common attachment keys
-            const attachmentKeys = ['attachments', 'screenshots', 'artifacts', 'images'];
-            
-            for (const attachKey of attachmentKeys) {
-              if (item[attachKey] && Array.isArray(item[attachKey])) {
-                outputChannel.appendLine(`Found ${item[attachKey].length} attachments at key '${attachKey}'`);
-                attachments = attachments.concat(item[attachKey]);
-              }
-            }
-            
-            // Also look for image paths in any key of the item
-            for (const itemKey of Object.keys(item)) {
-              if (typeof item[itemKey] === 'string' && 
-                  (item[itemKey].endsWith('.png') || item[itemKey].includes('screenshot'))) {
-                outputChannel.appendLine(`Found image path in key '${itemKey}': ${item[itemKey]}`);
-                attachments.push({
-                  name: itemKey,
-                  path: item[itemKey],
-                  contentType: 'image/png'
-                });
-              }
-            }
-            
-            if (attachments.length > 0) {
-              outputChannel.appendLine(`Creating test result from custom format with ${attachments.length} attachments`);
-              
-              // Create test result
-              const testResult: TestResult = {
-                name: item.title || item.name || key,
-                status: item.status || 'unknown',
-                duration: item.duration || 0,
-                testFile: item.file || item.filename || 'Unknown',
-                location: item.location,
-                error: item.error?.message || item.errorMessage || '',
-                attachments: []
-              };
-              
-              // Process attachments
-              for (const attachment of attachments) {
-                if (!attachment.path && !attachment.body) {
-                  outputChannel.appendLine(`Attachment missing path and body: ${JSON.stringify(attachment)}`);
-                  continue;
-                }
-                
-                const attachmentPath = (attachment.path ? resolveAttachmentPath(attachment.path, workspaceRoot, resultsFilePath, testResult.testFile) : undefined) || attachment.path;
-                
-                if (attachmentPath) {
-                  outputChannel.appendLine(`Processing attachment: ${attachmentPath}`);
-                }
-                
-                const relativePath = attachmentPath ? relative(workspaceRoot, attachmentPath) : '';
-                
-                testResult.attachments.push({
-                  name: attachment.name || (attachmentPath ? basename(attachmentPath) : 'Unknown'),
-                  path: attachmentPath || '',
-                  relativePath,
-                  contentType: attachment.contentType || 'image/png',
-                  type: getAttachmentType(attachment)
-                });
-              }
-              
-              // Find screenshot sets
-              const screenshotSet = findScreenshotSet(testResult.attachments);
-              if (screenshotSet) {
-                testResult.screenshotSet = screenshotSet;
-                testResults.push(testResult);
-                outputChannel.appendLine(`Added test result from custom format with screenshot set`);
-              }
-            }
-          }
-        }
-      }
-      
-      if (testResults.length > 0) {
-        outputChannel.appendLine(`Found ${testResults.length} test results from custom format`);
-        return testResults;
+  }
+  for (const error of report.errors ?? []) {
+    outputChannel.appendLine(`Report error: ${error.message || error.value}`);
+  }
+
+  // Spec files are relative to rootDir, which is stale if the project moved
+  const configPath = findNearestPlaywrightConfig(resultsFilePath);
+  const rootDir = report.config.rootDir && existsSync(report.config.rootDir)
+    ? report.config.rootDir
+    : configPath ? dirname(configPath) : dirname(resultsFilePath);
+
+  for (const { file, describePath, spec } of collectReportSpecs(report)) {
+    const specPath = isAbsolute(file) ? file : join(rootDir, file);
+    for (const test of spec.tests) {
+      const attempts = [...test.results]
+        .sort((a, b) => a.retry - b.retry)
+        .map(result => ({
+          ...newAttempt(
+            result.retry,
+            result.status ?? 'unknown',
+            result.duration ?? 0,
+            getErrorMessages(result)[0] ?? '',
+            toAttachments(result.attachments ?? [], workspaceRoot, resultsFilePath, specPath)
+          ),
+          shard: result.shard,
+        }));
+
+      const testResult = fromAttempts({
+        // Tests with the same title in different describe blocks stay apart
+        name: [...describePath, spec.title].join(TITLE_SEPARATOR),
+        testFile: file,
+        projectName: test.projectName,
+        location: { file: specPath, line: spec.line, column: spec.column },
+      }, attempts);
+      if (testResult) {
+        testResults.push(testResult);
       }
     }
   }
-  
-  // Check for custom format from the user's reporter
-  if (resultsJson.results) {
-    outputChannel.appendLine(`Found 'results' key at top level, might be custom format`);
-    
-    // Try to process this format
-    if (Array.isArray(resultsJson.results)) {
-      outputChannel.appendLine(`Results is an array with ${resultsJson.results.length} items`);
-      
-      for (const result of resultsJson.results) {
-        // Log the structure of each result
-        outputChannel.appendLine(`Result keys: ${Object.keys(result).join(', ')}`);
-        
-        // Check if it has attachments
-        if (result.attachments && result.attachments.length > 0) {
-          outputChannel.appendLine(`Found ${result.attachments.length} attachments`);
-          
-          // Check for screenshots
-          const screenshots = result.attachments.filter((a: any) => 
-            a.contentType === 'image/png' || a.name?.includes('.png') || a.path?.includes('.png')
-          );
-          
-          if (screenshots.length > 0) {
-            outputChannel.appendLine(`Found ${screenshots.length} screenshots`);
-            
-            // Create a test result for this
-            const testResult: TestResult = {
-              name: result.title || result.name || 'Unknown Test',
-              status: result.status || 'unknown',
-              duration: result.duration || 0,
-              testFile: result.file || 'Unknown',
-              location: result.location,
-              error: result.error?.message || '',
-              attachments: []
-            };
-            
-            // Process attachments
-            for (const attachment of result.attachments) {
-              if (!attachment.path) {
-                outputChannel.appendLine(`Attachment missing path: ${JSON.stringify(attachment)}`);
-                continue;
-              }
-              
-              outputChannel.appendLine(`Processing attachment: ${attachment.path}`);
-              
-              // Check if the file exists
-              if (!existsSync(attachment.path)) {
-                outputChannel.appendLine(`Attachment file does not exist: ${attachment.path}`);
-                continue;
-              }
-              
-              const relativePath = relative(workspaceRoot, attachment.path);
-              
-              testResult.attachments.push({
-                name: attachment.name || basename(attachment.path),
-                path: attachment.path,
-                relativePath,
-                contentType: attachment.contentType || 'application/octet-stream',
-                type: getAttachmentType(attachment)
-              });
-            }
-            
-            // Find screenshot sets
-            const screenshotSet = findScreenshotSet(testResult.attachments);
-            if (screenshotSet) {
-              testResult.screenshotSet = screenshotSet;
-              testResults.push(testResult);
-              outputChannel.appendLine(`Added test result with screenshot set`);
-            } else {
-              outputChannel.appendLine(`No screenshot set found for test`);
-            }
-          } else {
-            outputChannel.appendLine(`No screenshots found in attachments`);
-          }
-        }
+
+  outputChannel.appendLine(`Found ${testResults.length} test results with screenshots`);
+  return testResults;
+}
+
+function newAttempt(retry: number, status: string, duration: number, error: string, attachments: Attachment[]): TestAttempt {
+  return { retry, status, duration, error, attachments, screenshotSet: findScreenshotSet(attachments) ?? undefined };
+}
+
+/**
+ * Outcome over every attempt: flaky when a retry passed after a failure
+ */
+function getOverallStatus(attempts: TestAttempt[]): string {
+  const last = attempts[attempts.length - 1]?.status ?? 'unknown';
+  const failedBefore = attempts.some(attempt => attempt.status !== 'passed' && attempt.status !== 'skipped');
+  return last === 'passed' && failedBefore ? 'flaky' : last;
+}
+
+/**
+ * A test result over its attempts, showing the last one with screenshots on
+ * its tile; null when no attempt has any
+ */
+function fromAttempts(
+  test: Pick<TestResult, 'name' | 'testFile' | 'projectName' | 'location'>,
+  attempts: TestAttempt[]
+): TestResult | null {
+  const shown = [...attempts].reverse().find(attempt => attempt.screenshotSet);
+  if (!shown) {
+    return null;
+  }
+  const failed = [...attempts].reverse().find(attempt => attempt.error);
+  return {
+    ...test,
+    status: getOverallStatus(attempts),
+    duration: attempts.reduce((total, attempt) => total + attempt.duration, 0),
+    error: shown.error || failed?.error || '',
+    attachments: shown.attachments,
+    screenshotSet: shown.screenshotSet,
+    attempts,
+  };
+}
+
+/**
+ * An attachment as written by the json reporter or by custom reporters
+ */
+interface RawAttachment {
+  name?: string;
+  path?: string;
+  contentType?: string;
+  body?: string;
+  type?: string;
+}
+
+function isImageAttachment(attachment: RawAttachment): boolean {
+  return attachment.contentType === 'image/png' ||
+    !!attachment.name?.endsWith('.png') ||
+    !!attachment.path?.endsWith('.png');
+}
+
+/**
+ * Attachments with their files located, skipping inline ones
+ */
+function toAttachments(
+  attachments: RawAttachment[],
+  workspaceRoot: string,
+  resultsFilePath: string,
+  testFile?: string
+): Attachment[] {
+  const resolved: Attachment[] = [];
+  for (const attachment of attachments) {
+    if (!attachment.path) {
+      if (!attachment.body) {
+        outputChannel.appendLine(`Attachment missing path and body: ${JSON.stringify(attachment)}`);
       }
+      continue;
     }
+
+    const attachmentPath = resolveAttachmentPath(attachment.path, workspaceRoot, resultsFilePath, testFile) || attachment.path;
+    resolved.push({
+      name: attachment.name || basename(attachmentPath),
+      path: attachmentPath,
+      relativePath: relative(workspaceRoot, attachmentPath),
+      contentType: attachment.contentType || 'application/octet-stream',
+      type: getAttachmentType(attachment)
+    });
   }
-  
-  if (!resultsJson.suites && !resultsJson.tests) {
-    outputChannel.appendLine("Results JSON doesn't have expected structure (missing suites or tests)");
-    return testResults;
-  }
-  
-  // Process each suite recursively if available
-  if (resultsJson.suites) {
-    outputChannel.appendLine(`Processing ${resultsJson.suites.length} suites`);
-    for (const suite of resultsJson.suites) {
-      processTestSuite(suite, testResults, workspaceRoot, resultsFilePath);
-    }
+  return resolved;
+}
+
+/**
+ * A results format other than Playwright's JSON report
+ */
+interface ResultsAdapter {
+  /** Shown in the output channel when a file is read with this adapter */
+  name: string;
+  matches(json: any): boolean;
+  process(json: any, workspaceRoot: string, resultsFilePath: string): TestResult[];
+}
+
+/**
+ * Results list a test under several names depending on who wrote them
+ */
+function newLegacyTestResult(test: any, testFile?: string): TestResult {
+  return {
+    name: test.title || test.name || 'Unknown Test',
+    status: test.status || 'unknown',
+    duration: test.duration || 0,
+    testFile: test.file || test.filename || testFile || 'Unknown',
+    location: test.location,
+    error: test.error?.message || test.errorMessage || '',
+    attachments: [],
+    attempts: []
+  };
+}
+
+/**
+ * Finish a result whose format only records one attempt
+ */
+function withScreenshotSet(testResult: TestResult): TestResult | null {
+  const screenshotSet = findScreenshotSet(testResult.attachments);
+  if (!screenshotSet) {
+    return null;
   }
-  
-  // Some JSON formats might have tests at the top level
-  if (resultsJson.tests && Array.isArray(resultsJson.tests)) {
-    outputChannel.appendLine(`Processing ${resultsJson.tests.length} top-level tests`);
-    for (const test of resultsJson.tests) {
-      const testFile = test.file || 'Unknown';
-      const testResult = processTest(test, testFile, workspaceRoot, resultsFilePath);
-      if (testResult) {
-        testResults.push(testResult);
-      }
+  testResult.screenshotSet = screenshotSet;
+  testResult.attempts = [{
+    retry: 0,
+    status: testResult.status,
+    duration: testResult.duration,
+    error: testResult.error,
+    attachments: testResult.attachments,
+    screenshotSet
+  }];
+  return testResult;
+}
+
+/**
+ * A test carrying a code snippet next to its own attachments, as written by
+ * an early custom reporter. Attachment names double as paths.
+ */
+function processSnippetTest(test: any, testFile: string | undefined, workspaceRoot: string, resultsFilePath: string): TestResult | null {
+  const testResult = newLegacyTestResult(test, testFile);
+  const resolveFrom = test.file || testFile;
+
+  for (const attachment of test.attachments as RawAttachment[]) {
+    const attachmentPath = (attachment.path && resolveAttachmentPath(attachment.path, workspaceRoot, resultsFilePath, resolveFrom)) ||
+      (attachment.name && resolveAttachmentPath(attachment.name, workspaceRoot, resultsFilePath, resolveFrom));
+    if (!attachmentPath) {
+      continue;
     }
+
+    const contentType = attachment.contentType ||
+      (attachment.name?.endsWith('.png') ? 'image/png' : 'application/octet-stream');
+    testResult.attachments.push({
+      name: attachment.name || basename(attachmentPath),
+      path: attachmentPath,
+      relativePath: relative(workspaceRoot, attachmentPath),
+      contentType,
+      type: contentType === 'image/png' ? 'screenshot' : 'other'
+    });
   }
-  
-  outputChannel.appendLine(`Found ${testResults.length} test results with screenshots`);
-  return testResults;
+
+  return withScreenshotSet(testResult);
 }
 
-// Extract test results from a suite, processing recursively
-function processTestSuite(suite: any, results: TestResult[], workspaceRoot: string, resultsFilePath: string) {
-  outputChannel.appendLine(`Processing suite: ${suite.title || 'Unnamed Suite'}`);
-  
-  // Process tests in this suite
-  if (suite.tests) {
-    outputChannel.appendLine(`Suite has ${suite.tests.length} tests`);
-    for (const test of suite.tests) {
-      const testResult = processTest(test, suite.file, workspaceRoot, resultsFilePath);
-      if (testResult) {
-        results.push(testResult);
-      }
-    }
-  } else {
-    outputChannel.appendLine(`Suite has no tests array`);
+/** Keys some reporters put screenshot paths under, directly on the test */
+const SCREENSHOT_KEYS = ['screenshot', 'screenshots', 'image', 'images', 'actual', 'expected', 'diff'];
+
+/**
+ * A test from a suites/tests tree that isn't a Playwright JSON report: its
+ * attachments are on a result, on the test itself or under screenshot keys
+ */
+function processLegacyTest(test: any, testFile: string | undefined, workspaceRoot: string, resultsFilePath: string): TestResult | null {
+  if (test.snippet && Array.isArray(test.attachments)) {
+    return processSnippetTest(test, testFile, workspaceRoot, resultsFilePath);
   }
-  
-  // Process child suites recursively
-  if (suite.suites) {
-    outputChannel.appendLine(`Suite has ${suite.suites.length} child suites`);
-    for (const childSuite of suite.suites) {
-      processTestSuite(childSuite, results, workspaceRoot, resultsFilePath);
+
+  const resolveFrom = test.file || testFile;
+
+  if (Array.isArray(test.results) && test.results.length > 0) {
+    const { name, testFile: file, location, status, duration, error } = newLegacyTestResult(test, testFile);
+    const attempts = test.results.map((result: any, index: number) => newAttempt(
+      result.retry ?? index,
+      result.status || status,
+      result.duration || duration,
+      result.error?.message || error || '',
+      toAttachments(result.attachments ?? [], workspaceRoot, resultsFilePath, resolveFrom)
+    ));
+    return fromAttempts({ name, testFile: file, projectName: test.projectName, location: test.results[0].location || location }, attempts);
+  }
+
+  if (Array.isArray(test.attachments) && test.attachments.length > 0) {
+    if (!test.attachments.some(isImageAttachment)) {
+      return null;
     }
-  } else {
-    outputChannel.appendLine(`Suite has no child suites`);
+    const testResult = newLegacyTestResult(test, testFile);
+    testResult.attachments = toAttachments(test.attachments, workspaceRoot, resultsFilePath, resolveFrom);
+    return withScreenshotSet(testResult);
   }
-  
-  // Some formats might have specs instead of tests
-  if (suite.specs) {
-    outputChannel.appendLine(`Suite has ${suite.specs.length} specs`);
-    for (const spec of suite.specs) {
-      const testResult = processTest(spec, suite.file, workspaceRoot, resultsFilePath);
-      if (testResult) {
-        results.push(testResult);
+
+  const testResult = newLegacyTestResult(test, testFile);
+  for (const key of SCREENSHOT_KEYS.filter(key => test[key])) {
+    const values: any[] = Array.isArray(test[key]) ? test[key] : [test[key]];
+    for (const value of values) {
+      const path = typeof value === 'string' ? value : value?.path;
+      const resolvedPath = typeof path === 'string' ? resolveAttachmentPath(path, workspaceRoot, resultsFilePath, resolveFrom) : null;
+      if (resolvedPath) {
+        testResult.attachments.push({
+          name: value?.name || `${key}-${basename(resolvedPath)}`,
+          path: resolvedPath,
+          relativePath: relative(workspaceRoot, resolvedPath),
+          contentType: value?.contentType || 'image/png',
+          type: 'screenshot'
+        });
       }
     }
   }
+  return withScreenshotSet(testResult);
 }
 
-// Extract relevant information from a test
-function processTest(test: any, testFile: string, workspaceRoot: string, resultsFilePath: string): TestResult | null {
-  outputChannel.appendLine(`Processing test: ${test.title || test.name || 'Unnamed Test'}`);
-  outputChannel.appendLine(`Test keys: ${Object.keys(test).join(', ')}`);
-  
-  // Log the test object for debugging
-  try {
-    const testJson = JSON.stringify(test, null, 2);
-    const snippet = testJson.length > 500 ? testJson.substring(0, 500) + '...' : testJson;
-    outputChannel.appendLine(`Test object: ${snippet}`);
-  } catch (error) {
-    outputChannel.appendLine(`Error stringifying test object: ${error}`);
-  }
-  
-  // Special handling for the format seen in Untitled-2.json
-  if (test.snippet && test.attachments) {
-    outputChannel.appendLine(`Found potential Untitled-2.json format with snippet and attachments`);
-    
-    // Create test result object
-    const testResult: TestResult = {
-      name: test.title || test.name || 'Unknown Test',
-      status: test.status || 'unknown',
-      duration: test.duration || 0,
-      testFile: test.file || testFile || 'Unknown',
-      location: test.location,
-      error: test.error?.message || '',
-      attachments: []
-    };
-    
-    // Process attachments
-    for (const attachment of test.attachments) {
-      outputChannel.appendLine(`Processing attachment from Untitled-2 format: ${JSON.stringify(attachment)}`);
-      
-      if (!attachment.path && !attachment.name) {
-        outputChannel.appendLine(`Attachment missing path and name`);
-        continue;
+/**
+ * `suites` with nested `tests`, `specs` and `suites`, and/or top-level
+ * `tests`, written by reporters other than Playwright's json reporter
+ */
+const legacySuitesAdapter: ResultsAdapter = {
+  name: 'suites/tests results',
+  matches: json => Array.isArray(json?.suites) || Array.isArray(json?.tests),
+  process: (json, workspaceRoot, resultsFilePath) => {
+    const testResults: TestResult[] = [];
+    const add = (test: any, testFile?: string) => {
+      const testResult = processLegacyTest(test, testFile, workspaceRoot, resultsFilePath);
+      if (testResult) {
+        testResults.push(testResult);
       }
-      
-      let attachmentPath = attachment.path;
-      
-      // If path is relative, resolve it
-      if (attachmentPath && !isAbsolute(attachmentPath)) {
-        attachmentPath = join(workspaceRoot, attachmentPath);
+    };
+
+    const visitSuite = (suite: any) => {
+      for (const test of [...(suite.tests ?? []), ...(suite.specs ?? [])]) {
+        add(test, suite.file);
       }
-      
-      // Check if the file exists
-      if (attachmentPath && !existsSync(attachmentPath)) {
-        outputChannel.appendLine(`Attachment file does not exist: ${attachmentPath}`);
-        
-        // Try alternative paths
-        const alternativePaths = [
-          join(workspaceRoot, 'test-results', basename(attachmentPath)),
-          join(workspaceRoot, 'playwright-report', basename(attachmentPath)),
-          join(dirname(testFile), basename(attachmentPath)),
-          // Try paths from the attachment name
-          attachment.name ? join(workspaceRoot, attachment.name) : '',
-          attachment.name ? join(workspaceRoot, 'test-results', attachment.name) : '',
-          attachment.name ? join(workspaceRoot, 'playwright-report', attachment.name) : ''
-        ].filter(Boolean);
-        
-        let found = false;
-        for (const altPath of alternativePaths) {
-          if (existsSync(altPath)) {
-            attachmentPath = altPath;
-            outputChannel.appendLine(`Found attachment at alternative path: ${altPath}`);
-            found = true;
-            break;
-          }
-        }
-        
-        if (!found) {
-          outputChannel.appendLine(`Could not find attachment file at any alternative path`);
-          continue;
-        }
+      for (const child of suite.suites ?? []) {
+        visitSuite(child);
       }
-      
-      const relativePath = relative(workspaceRoot, attachmentPath || '');
-      const contentType = attachment.contentType || 
-                         (attachment.name && attachment.name.endsWith('.png')) ? 'image/png' : 
-                         'application/octet-stream';
-      
-      testResult.attachments.push({
-        name: attachment.name || (attachmentPath ? basename(attachmentPath) : 'Unknown'),
-        path: attachmentPath || '',
-        relativePath,
-        contentType,
-        type: contentType === 'image/png' ? 'screenshot' : 'other'
-      });
-    }
-    
-    // Find screenshot sets
-    const screenshotSet = findScreenshotSet(testResult.attachments);
-    if (screenshotSet) {
-      testResult.screenshotSet = screenshotSet;
-      outputChannel.appendLine(`Created test result with screenshot set from Untitled-2 format`);
-      return testResult;
-    } else {
-      outputChannel.appendLine(`No screenshot set found for test in Untitled-2 format`);
-    }
+    };
+
+    (json.suites ?? []).forEach(visitSuite);
+    (json.tests ?? []).forEach((test: any) => add(test));
+    return testResults;
   }
-  
-  // Handle different test result formats
-  
-  // Format 1: test has results array with attachments
-  if (test.results && test.results.length) {
-    outputChannel.appendLine(`Test has ${test.results.length} results`);
-    
-    // Get the first result that has attachments
-    const result = test.results.find((r: any) => r.attachments && r.attachments.length > 0) || test.results[0];
-    
-    outputChannel.appendLine(`Result keys: ${Object.keys(result).join(', ')}`);
-    
-    // Check for attachments
-    if (result.attachments && result.attachments.length > 0) {
-      outputChannel.appendLine(`Result has ${result.attachments.length} attachments`);
-      
-      // Log attachment details
-      for (const attachment of result.attachments) {
-        outputChannel.appendLine(`Attachment: ${JSON.stringify(attachment)}`);
+};
+
+/**
+ * A flat `results` array with one entry per test and its attachments
+ */
+const resultsArrayAdapter: ResultsAdapter = {
+  name: 'flat results list',
+  matches: json => Array.isArray(json?.results),
+  process: (json, workspaceRoot, resultsFilePath) => {
+    const testResults: TestResult[] = [];
+    for (const result of json.results) {
+      if (!result?.attachments?.some(isImageAttachment)) {
+        continue;
       }
-      
-      // Check if any attachments are screenshots
-      const hasScreenshots = result.attachments.some((a: any) => 
-        a.contentType === 'image/png' || 
-        (a.name && a.name.endsWith('.png')) || 
-        (a.path && a.path.endsWith('.png'))
+      const testResult = newLegacyTestResult(result);
+      // These reporters wrote absolute paths; missing files are dropped
+      testResult.attachments = toAttachments(
+        result.attachments.filter((attachment: RawAttachment) => attachment.path && existsSync(attachment.path)),
+        workspaceRoot,
+        resultsFilePath,
+        result.file
       );
-      
-      if (hasScreenshots) {
-        outputChannel.appendLine(`Found screenshots in attachments`);
-        
-        // Create test result object
-        const testResult: TestResult = {
-          name: test.title || test.name || 'Unknown Test',
-          status: result.status || test.status || 'unknown',
-          duration: result.duration || test.duration || 0,
-          testFile: test.file || testFile || 'Unknown',
-          location: result.location || test.location,
-          error: result.error?.message || test.error?.message || '',
-          attachments: []
-        };
-        
-        // Process attachments
-        for (const attachment of result.attachments) {
-          if (!attachment.path && !attachment.body) {
-            outputChannel.appendLine(`Attachment missing path and body: ${JSON.stringify(attachment)}`);
-            continue;
-          }
-          
-          const attachmentPath = (attachment.path ? resolveAttachmentPath(attachment.path, workspaceRoot, resultsFilePath, testFile) : undefined) || attachment.path;
-          
-          if (attachmentPath) {
-             outputChannel.appendLine(`Processing attachment: ${attachmentPath}`);
-          }
-          
-          const relativePath = attachmentPath ? relative(workspaceRoot, attachmentPath) : '';
-          
-          testResult.attachments.push({
-            name: attachment.name || (attachmentPath ? basename(attachmentPath) : 'Unknown'),
-            path: attachmentPath || '',
-            relativePath,
-            contentType: attachment.contentType || 'application/octet-stream',
-            type: getAttachmentType(attachment)
-          });
-        }
-        
-        // Find screenshot sets
-        const screenshotSet = findScreenshotSet(testResult.attachments);
-        if (screenshotSet) {
-          testResult.screenshotSet = screenshotSet;
-          outputChannel.appendLine(`Created test result with screenshot set`);
-          return testResult;
-        } else {
-          outputChannel.appendLine(`No screenshot set found for test`);
-        }
-      } else {
-        outputChannel.appendLine(`Result has no attachments`);
+      const withSet = withScreenshotSet(testResult);
+      if (withSet) {
+        testResults.push(withSet);
       }
-    } else {
-      outputChannel.appendLine(`Result has no attachments`);
     }
-  } else if (test.attachments && test.attachments.length) {
-    // Format 2: test has attachments directly
-    outputChannel.appendLine(`Test has ${test.attachments.length} direct attachments`);
-    
-    // Log attachment details
-    for (const attachment of test.attachments) {
-      outputChannel.appendLine(`Attachment: ${JSON.stringify(attachment)}`);
-    }
-    
-    // Check if any attachments are screenshots
-    const hasScreenshots = test.attachments.some((a: any) => 
-      a.contentType === 'image/png' || 
-      (a.name && a.name.endsWith('.png')) || 
-      (a.path && a.path.endsWith('.png'))
-    );
-    
-    if (hasScreenshots) {
-      outputChannel.appendLine(`Found screenshots in direct attachments`);
-      
-      // Create test result object
-      const testResult: TestResult = {
-        name: test.title || test.name || 'Unknown Test',
-        status: test.status || 'unknown',
-        duration: test.duration || 0,
-        testFile: test.file || testFile || 'Unknown',
-        location: test.location,
-        error: test.error?.message || '',
-        attachments: []
-      };
-      
-      // Process attachments
-      for (const attachment of test.attachments) {
-        if (!attachment.path && !attachment.body) {
-          outputChannel.appendLine(`Attachment missing path and body: ${JSON.stringify(attachment)}`);
+    return testResults;
+  }
+};
+
+/**
+ * Last resort: arrays under any key mentioning tests, specs or cases, whose
+ * items list attachments or mention image paths
+ */
+const guessedKeysAdapter: ResultsAdapter = {
+  name: 'unknown format, guessing from key names',
+  matches: json => typeof json === 'object' && json !== null &&
+    Object.keys(json).some(key => /test|spec|case/i.test(key)),
+  process: (json, workspaceRoot, resultsFilePath) => {
+    const testResults: TestResult[] = [];
+    for (const key of Object.keys(json).filter(key => /test|spec|case/i.test(key) && Array.isArray(json[key]))) {
+      for (const item of json[key]) {
+        if (typeof item !== 'object' || item === null) {
           continue;
         }
-        
-        const attachmentPath = (attachment.path ? resolveAttachmentPath(attachment.path, workspaceRoot, resultsFilePath, testFile) : undefined) || attachment.path;
-        
-        if (attachmentPath) {
-          outputChannel.appendLine(`Processing attachment: ${attachmentPath}`);
-        }
-        
-        const relativePath = attachmentPath ? relative(workspaceRoot, attachmentPath) : '';
-        
-        testResult.attachments.push({
-          name: attachment.name || (attachmentPath ? basename(attachmentPath) : 'Unknown'),
-          path: attachmentPath || '',
-          relativePath,
-          contentType: attachment.contentType || 'application/octet-stream',
-          type: getAttachmentType(attachment)
-        });
-      }
-      
-      // Find screenshot sets
-      const screenshotSet = findScreenshotSet(testResult.attachments);
-      if (screenshotSet) {
-        testResult.screenshotSet = screenshotSet;
-        outputChannel.appendLine(`Created test result with screenshot set`);
-        return testResult;
-      } else {
-        outputChannel.appendLine(`No screenshot set found for test`);
-      }
-    } else {
-      outputChannel.appendLine(`No screenshots found in direct attachments`);
-    }
-  } else {
-    // Format 3: Check for special keys that might indicate screenshots
-    const specialKeys = ['screenshot', 'screenshots', 'image', 'images', 'actual', 'expected', 'diff'];
-    const hasSpecialKeys = specialKeys.some(key => test[key]);
-    
-    if (hasSpecialKeys) {
-      outputChannel.appendLine(`Test has special keys that might indicate screenshots`);
-      
-      // Create test result object
-      const testResult: TestResult = {
-        name: test.title || test.name || 'Unknown Test',
-        status: test.status || 'unknown',
-        duration: test.duration || 0,
-        testFile: test.file || testFile || 'Unknown',
-        location: test.location,
-        error: test.error?.message || '',
-        attachments: []
-      };
-      
-      // Process special keys
-      for (const key of specialKeys) {
-        if (test[key]) {
-          outputChannel.appendLine(`Processing special key: ${key} = ${test[key]}`);
-          
-          // Handle different types of values
-          if (typeof test[key] === 'string') {
-            // String path
-            const resolvedPath = resolveAttachmentPath(test[key], workspaceRoot, resultsFilePath, testFile);
-            
-            if (resolvedPath) {
-              testResult.attachments.push({
-                name: `${key}-${basename(resolvedPath)}`,
-                path: resolvedPath,
-                relativePath: relative(workspaceRoot, resolvedPath),
-                contentType: 'image/png',
-                type: 'screenshot'
-              });
-            }
-          } else if (Array.isArray(test[key])) {
-            // Array of paths or objects
-            for (const item of test[key]) {
-              if (typeof item === 'string') {
-                const resolvedPath = resolveAttachmentPath(item, workspaceRoot, resultsFilePath, testFile);
-                
-                if (resolvedPath) {
-                  testResult.attachments.push({
-                    name: `${key}-${basename(resolvedPath)}`,
-                    path: resolvedPath,
-                    relativePath: relative(workspaceRoot, resolvedPath),
-                    contentType: 'image/png',
-                    type: 'screenshot'
-                  });
-                }
-              } else if (typeof item === 'object' && item !== null) {
-                // Object with path or other properties
-                if (item.path) {
-                  const resolvedPath = resolveAttachmentPath(item.path, workspaceRoot, resultsFilePath, testFile);
-                  
-                  if (resolvedPath) {
-                    testResult.attachments.push({
-                      name: item.name || `${key}-${basename(resolvedPath)}`,
-                      path: resolvedPath,
-                      relativePath: relative(workspaceRoot, resolvedPath),
-                      contentType: item.contentType || 'image/png',
-                      type: 'screenshot'
-                    });
-                  }
-                }
-              }
-            }
+
+        const attachments: RawAttachment[] = ['attachments', 'screenshots', 'artifacts', 'images']
+          .filter(attachKey => Array.isArray(item[attachKey]))
+          .flatMap(attachKey => item[attachKey]);
+        for (const itemKey of Object.keys(item)) {
+          const value = item[itemKey];
+          if (typeof value === 'string' && (value.endsWith('.png') || value.includes('screenshot'))) {
+            attachments.push({ name: itemKey, path: value, contentType: 'image/png' });
           }
         }
-      }
-      
-      // Find screenshot sets
-      const screenshotSet = findScreenshotSet(testResult.attachments);
-      if (screenshotSet) {
-        testResult.screenshotSet = screenshotSet;
-        outputChannel.appendLine(`Created test result with screenshot set from special keys`);
-        return testResult;
+        if (attachments.length === 0) {
+          continue;
+        }
+
+        const testResult = newLegacyTestResult({ ...item, title: item.title || item.name || key });
+        testResult.attachments = toAttachments(
+          attachments.map(attachment => ({ ...attachment, contentType: attachment.contentType || 'image/png' })),
+          workspaceRoot,
+          resultsFilePath,
+          testResult.testFile
+        );
+        const withSet = withScreenshotSet(testResult);
+        if (withSet) {
+          testResults.push(withSet);
+        }
       }
     }
+    return testResults;
   }
-  
-  outputChannel.appendLine(`No screenshots found for test`);
-  return null;
-}
+};
+
+/** Tried in order; the first that matches reads the file */
+const RESULTS_ADAPTERS: ResultsAdapter[] = [legacySuitesAdapter, resultsArrayAdapter, guessedKeysAdapter];
 
 // Determine the type of attachment
 function getAttachmentType(attachment: any): 'screenshot' | 'trace' | 'other' {
@@ -1292,45 +1374,211 @@ function findScreenshotSet(attachments: Attachment[]): ScreenshotSet | null {
   const screenshots = attachments.filter(a => a.type === 'screenshot');
   if (screenshots.length === 0) return null;
   
-  const set: ScreenshotSet = {};
+  const set: ScreenshotSet = {};
+  
+  // Try to identify the expected, actual, and diff screenshots
+  for (const screenshot of screenshots) {
+    const name = screenshot.name.toLowerCase();
+    const path = normalize(screenshot.path.toLowerCase());
+    
+    if (name.includes('expected') || path.includes('expected')) {
+      set.expected = screenshot;
+    } else if (name.includes('actual') || path.includes('actual')) {
+      set.actual = screenshot;
+    } else if (name.includes('diff') || path.includes('diff')) {
+      set.diff = screenshot;
+    } else if (!set.actual) {
+      // If we can't identify the type, default to actual
+      set.actual = screenshot;
+    }
+  }
+  
+  return Object.keys(set).length > 0 ? set : null;
+}
+
+/**
+ * Webview URI of an image that changes whenever the file is rewritten, so the
+ * webview doesn't keep showing a previous run's screenshot from its cache
+ */
+function toVersionedWebviewUri(panel: vscode.WebviewPanel, path: string): string {
+  return panel.webview.asWebviewUri(vscode.Uri.file(path)).with({ query: `v=${statSync(path).mtimeMs}` }).toString();
+}
+
+/**
+ * Opening markup of a test file's group; its tiles go inside `.tests-grid`
+ */
+function getTestGroupHtml(file: string): string {
+  const fileName = basename(file);
+  return `
+      <div class="test-group" data-file="${escapeHtml(file)}">
+        <div class="test-file-header">
+          <h2>${escapeHtml(fileName)}</h2>
+          <button class="file-button" onclick="openTestFile(this.closest('.test-group').dataset.file)">
+            <svg viewBox="0 0 16 16" width="16" height="16">
+              <path fill="currentColor" d="M13.71 4.29l-3-3L10 2h-.59L4 2c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h9c.55 0 1-.45 1-1V5l-.29-.71zM13 13H4V3h5v3h4v7z"/>
+            </svg>
+            Open File
+          </button>
+        </div>
+        <div class="tests-grid">
+    `;
+}
+
+/**
+ * Gallery tile for one result, or undefined when none of its screenshots exist
+ */
+function getTestItemHtml(result: TestResult, panel: vscode.WebviewPanel): string | undefined {
+  // Skip if no screenshot set
+  if (!result.screenshotSet) return undefined;
+  
+  // Convert screenshot paths to webview URIs for display
+  const screenshots: {
+    expected?: string;
+    actual?: string;
+    diff?: string;
+  } = {};
+  
+  if (result.screenshotSet.expected && existsSync(result.screenshotSet.expected.path)) {
+    screenshots.expected = toVersionedWebviewUri(panel, result.screenshotSet.expected.path);
+  }
+  
+  if (result.screenshotSet.actual && existsSync(result.screenshotSet.actual.path)) {
+    screenshots.actual = toVersionedWebviewUri(panel, result.screenshotSet.actual.path);
+  }
+  
+  if (result.screenshotSet.diff && existsSync(result.screenshotSet.diff.path)) {
+    screenshots.diff = toVersionedWebviewUri(panel, result.screenshotSet.diff.path);
+  }
+  
+  // Choose which image to display in the gallery
+  let primaryImage = screenshots.diff || screenshots.actual || screenshots.expected;
+  if (!primaryImage) return undefined; // Skip if no images available
+  
+  // Set status class and badge
+  // A timeout is a failure; an interrupted run never finished the test
+  const statusClass = result.status === 'passed' ? 'passed' : 
+                      result.status === 'failed' || result.status === 'timedOut' ? 'failed' :
+                      result.status === 'flaky' ? 'flaky' :
+                      result.status === 'interrupted' ? 'interrupted' : 'skipped';
+  
+  // Create location data for navigation
+  const locationAttr = result.location ? 
+    `data-file="${escapeHtml(result.location.file)}" data-line="${escapeHtml(result.location.line)}" data-column="${escapeHtml(result.location.column)}"` : 
+    `data-file="${escapeHtml(result.testFile)}"`;
+  
+  // Format duration
+  const duration = result.duration ? `${(result.duration / 1000).toFixed(2)}s` : '';
   
-  // Try to identify the expected, actual, and diff screenshots
-  for (const screenshot of screenshots) {
-    const name = screenshot.name.toLowerCase();
-    const path = normalize(screenshot.path.toLowerCase());
-    
-    if (name.includes('expected') || path.includes('expected')) {
-      set.expected = screenshot;
-    } else if (name.includes('actual') || path.includes('actual')) {
-      set.actual = screenshot;
-    } else if (name.includes('diff') || path.includes('diff')) {
-      set.diff = screenshot;
-    } else if (!set.actual) {
-      // If we can't identify the type, default to actual
-      set.actual = screenshot;
+  // Create screenshot comparison data; the diff image is optional since
+  // one can be computed from the other two
+  const comparable = !!(screenshots.expected && screenshots.actual);
+  let comparisonData = '';
+  if (screenshots.actual && !comparable) {
+    comparisonData = `data-actual="${escapeHtml(result.screenshotSet.actual?.path)}"`;
+  }
+  if (comparable) {
+    comparisonData = `data-expected="${escapeHtml(result.screenshotSet.expected?.path)}" data-actual="${escapeHtml(result.screenshotSet.actual?.path)}"`;
+    if (screenshots.diff) {
+      comparisonData += ` data-diff="${escapeHtml(result.screenshotSet.diff?.path)}"`;
     }
   }
   
-  return Object.keys(set).length > 0 ? set : null;
+  // Screenshots of every attempt, for the modal's attempt switcher
+  let attemptsData = '';
+  if (result.attempts.length > 1) {
+    const attempts = result.attempts.map(attempt => ({
+      retry: attempt.retry,
+      status: attempt.status,
+      shard: attempt.shard && `shard ${attempt.shard.current}/${attempt.shard.total}`,
+      error: attempt.error?.replace(/\u001b\[[0-9;]*m/g, ''),
+      expected: attempt.screenshotSet?.expected?.path,
+      actual: attempt.screenshotSet?.actual?.path,
+      diff: attempt.screenshotSet?.diff?.path,
+    }));
+    const shown = result.attempts.findIndex(attempt => attempt.screenshotSet === result.screenshotSet);
+    attemptsData = `data-attempts="${escapeHtml(JSON.stringify(attempts))}" data-attempt="${shown}"`;
+  }
+  
+  // Where the attempts ran, for results merged from sharded runs
+  const shards = [...new Set(result.attempts
+    .filter(attempt => attempt.shard)
+    .map(attempt => `${attempt.shard!.current}/${attempt.shard!.total}`))];
+  
+  // Create a unique ID for this test item
+  const testId = getTestItemId(result);
+  
+  return `
+    <div class="test-item ${statusClass}" id="${escapeHtml(testId)}" ${locationAttr} ${comparisonData} ${attemptsData} data-project="${escapeHtml(result.projectName)}">
+      <div class="screenshot-container">
+        <img src="${escapeHtml(primaryImage)}" alt="${escapeHtml(result.name)}" class="screenshot-image" onclick="openScreenshotModal(this)" />
+        <div class="status-badge ${statusClass}">${escapeHtml(result.status)}</div>
+        ${comparable ? `<div class="diff-badge" onclick="viewDiff(this)">View Diff</div>` : ''}
+        ${screenshots.actual ? `<div class="review-badge"></div>` : ''}
+      </div>
+      <div class="test-info">
+        <div class="test-name" title="${escapeHtml(result.name)}">${escapeHtml(result.name)}</div>
+        <div class="test-meta">
+          ${duration ? `<span class="duration">${duration}</span>` : ''}
+          ${result.attempts.length > 1 ? `<span class="attempts">${result.attempts.length} attempts</span>` : ''}
+          ${shards.length > 0 ? `<span class="shard">shard ${escapeHtml(shards.join(', '))}</span>` : ''}
+          ${result.projectName ? `<span class="project">${escapeHtml(result.projectName)}</span>` : ''}
+          ${comparable ? `<span class="mismatch" hidden></span>` : ''}
+          <span class="open-button" onclick="openTestLocation(this)">Go to Test</span>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Text safe to put in HTML content or a quoted attribute. Test titles, paths
+ * and errors come from reports, which may be imported from elsewhere.
+ */
+export function escapeHtml(text: string | number | undefined): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 // Type definitions
-interface TestResult {
+export interface TestResult {
   name: string;
   status: string;
   duration: number;
   testFile: string;
+  projectName?: string;
   location?: {
     file: string;
     line: number;
     column: number;
   };
   error?: string;
+  /** Attachments of the attempt shown on the tile */
+  attachments: Attachment[];
+  screenshotSet?: ScreenshotSet;
+  /** Every run of the test, the first run first */
+  attempts: TestAttempt[];
+}
+
+/**
+ * One run of a test: the first, or a retry
+ */
+export interface TestAttempt {
+  /** 0 for the first run, 1 for the first retry and so on */
+  retry: number;
+  status: string;
+  duration: number;
+  error?: string;
   attachments: Attachment[];
   screenshotSet?: ScreenshotSet;
+  /** Shard that ran the attempt, for results merged from blob reports */
+  shard?: JSONReportShard;
 }
 
-interface Attachment {
+export interface Attachment {
   name: string;
   path: string;
   relativePath: string;
@@ -1338,7 +1586,7 @@ interface Attachment {
   type: 'screenshot' | 'trace' | 'other';
 }
 
-interface ScreenshotSet {
+export interface ScreenshotSet {
   expected?: Attachment;
   actual?: Attachment;
   diff?: Attachment;
@@ -1529,96 +1777,22 @@ function generateGalleryHtml(
   
   // Generate HTML for each test group
   let testGroupsHtml = '';
+  const rendered = new Map<string, string>();
+  renderedResults.set(panel, rendered);
   const fileNames = Object.keys(resultsByFile).sort();
   
   for (const file of fileNames) {
     const results = resultsByFile[file];
     const fileName = basename(file);
     
-    testGroupsHtml += `
-      <div class="test-group" data-file="${file}">
-        <div class="test-file-header">
-          <h2>${fileName}</h2>
-          <button class="file-button" onclick="openTestFile('${file}')">
-            <svg viewBox="0 0 16 16" width="16" height="16">
-              <path fill="currentColor" d="M13.71 4.29l-3-3L10 2h-.59L4 2c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h9c.55 0 1-.45 1-1V5l-.29-.71zM13 13H4V3h5v3h4v7z"/>
-            </svg>
-            Open File
-          </button>
-        </div>
-        <div class="tests-grid">
-    `;
+    testGroupsHtml += getTestGroupHtml(file);
     
     for (const result of results) {
-      // Skip if no screenshot set
-      if (!result.screenshotSet) continue;
-      
-      // Convert screenshot paths to webview URIs for display
-      const screenshots: {
-        expected?: string;
-        actual?: string;
-        diff?: string;
-      } = {};
-      
-      if (result.screenshotSet.expected && existsSync(result.screenshotSet.expected.path)) {
-        screenshots.expected = panel.webview.asWebviewUri(
-          vscode.Uri.file(result.screenshotSet.expected.path)
-        ).toString();
-      }
-      
-      if (result.screenshotSet.actual && existsSync(result.screenshotSet.actual.path)) {
-        screenshots.actual = panel.webview.asWebviewUri(
-          vscode.Uri.file(result.screenshotSet.actual.path)
-        ).toString();
-      }
-      
-      if (result.screenshotSet.diff && existsSync(result.screenshotSet.diff.path)) {
-        screenshots.diff = panel.webview.asWebviewUri(
-          vscode.Uri.file(result.screenshotSet.diff.path)
-        ).toString();
+      const itemHtml = getTestItemHtml(result, panel);
+      if (itemHtml) {
+        testGroupsHtml += itemHtml;
+        rendered.set(getTestItemId(result), itemHtml);
       }
-      
-      // Choose which image to display in the gallery
-      let primaryImage = screenshots.diff || screenshots.actual || screenshots.expected;
-      if (!primaryImage) continue; // Skip if no images available
-      
-      // Set status class and badge
-      const statusClass = result.status === 'passed' ? 'passed' : 
-                          result.status === 'failed' ? 'failed' : 'skipped';
-      
-      // Create location data for navigation
-      const locationAttr = result.location ? 
-        `data-file="${result.location.file}" data-line="${result.location.line}" data-column="${result.location.column}"` : 
-        `data-file="${result.testFile}"`;
-      
-      // Format duration
-      const duration = result.duration ? `${(result.duration / 1000).toFixed(2)}s` : '';
-      
-      // Create screenshot comparison data
-      let comparisonData = '';
-      if (screenshots.expected && screenshots.actual && screenshots.diff) {
-        comparisonData = `data-expected="${result.screenshotSet.expected?.path}" data-actual="${result.screenshotSet.actual?.path}" data-diff="${result.screenshotSet.diff?.path}"`;
-      }
-      
-      // Create a unique ID for this test item
-      const testId = `test-${result.testFile.replace(/[^a-zA-Z0-9]/g, '-')}-${result.name.replace(/[^a-zA-Z0-9]/g, '-')}`;
-      
-      testGroupsHtml += `
-        <div class="test-item ${statusClass}" id="${testId}" ${locationAttr} ${comparisonData}>
-          <div class="screenshot-container">
-            <img src="${primaryImage}" alt="${result.name}" class="screenshot-image" onclick="openScreenshotModal(this)" />
-            <div class="status-badge ${statusClass}">${result.status}</div>
-            ${screenshots.diff ? `<div class="diff-badge" onclick="viewDiff(this)">View Diff</div>` : ''}
-          </div>
-          <div class="test-info">
-            <div class="test-name" title="${result.name}">${result.name}</div>
-            <div class="test-meta">
-              ${duration ? `<span class="duration">${duration}</span>` : ''}
-              <span class="open-button" onclick="openTestLocation(this)">Go to Test</span>
-            </div>
-          </div>
-        </div>
-      `;
     }
     
     testGroupsHtml += `
@@ -1627,6 +1801,11 @@ function generateGalleryHtml(
     `;
   }
   
+  // Results with an actual screenshot can be accepted as the new baseline
+  const hasReviewableResults = testResults.some(result =>
+    result.screenshotSet?.actual && existsSync(result.screenshotSet.actual.path)
+  );
+  
   // Generate result set selector if multiple locations available
   const hasMultipleLocations = allLocations && allLocations.length > 1;
   const resultSetSelectorHtml = hasMultipleLocations ? `
@@ -1634,8 +1813,8 @@ function generateGalleryHtml(
       <label for="result-set-dropdown">Project:</label>
       <select id="result-set-dropdown" onchange="switchResultSet(this.value)">
         ${allLocations.map(loc => `
-          <option value="${loc.relativePath}" ${loc.relativePath === selectedLocation?.relativePath ? 'selected' : ''}>
-            ${loc.displayName}
+          <option value="${escapeHtml(loc.relativePath)}" ${loc.relativePath === selectedLocation?.relativePath ? 'selected' : ''}>
+            ${escapeHtml(loc.displayName)}
           </option>
         `).join('')}
       </select>
@@ -1866,6 +2045,16 @@ function generateGalleryHtml(
           color: white;
         }
         
+        .status-badge.flaky {
+          background: var(--vscode-editorWarning-foreground);
+          color: white;
+        }
+        
+        .status-badge.interrupted {
+          background: var(--vscode-testing-iconErrored);
+          color: white;
+        }
+        
         .diff-badge {
           position: absolute;
           bottom: 10px;
@@ -1878,6 +2067,11 @@ function generateGalleryHtml(
           cursor: pointer;
         }
         
+        .mismatch {
+          color: var(--vscode-testing-iconFailed);
+          font-variant-numeric: tabular-nums;
+        }
+        
         .test-info {
           padding: 12px;
         }
@@ -1897,7 +2091,7 @@ function generateGalleryHtml(
           font-size: 12px;
         }
         
-        .duration {
+        .duration, .attempts, .shard {
           color: var(--vscode-descriptionForeground);
         }
         
@@ -1961,6 +2155,43 @@ function generateGalleryHtml(
           white-space: nowrap; /* Prevent text wrapping */
         }
         
+        .attempt-switcher {
+          display: flex;
+          gap: 4px;
+          flex-wrap: wrap;
+        }
+        
+        .attempt-switcher[hidden] {
+          display: none;
+        }
+        
+        .attempt-button {
+          padding: 4px 8px;
+          font-size: 12px;
+          background: var(--vscode-button-secondaryBackground);
+          color: var(--vscode-button-secondaryForeground);
+          border: 1px solid transparent;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+        
+        .attempt-button.failed, .attempt-button.timedOut {
+          border-left: 3px solid var(--vscode-testing-iconFailed);
+        }
+        
+        .attempt-button.passed {
+          border-left: 3px solid var(--vscode-testing-iconPassed);
+        }
+        
+        .attempt-button.selected {
+          border-color: var(--vscode-focusBorder);
+        }
+        
+        .attempt-button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+        
         .file-button {
           background: var(--vscode-button-secondaryBackground);
           color: var(--vscode-button-secondaryForeground);
@@ -2130,6 +2361,91 @@ function generateGalleryHtml(
           background: var(--vscode-button-secondaryHoverBackground);
         }
         
+        .review-start-button {
+          margin-left: 10px;
+          padding: 4px 10px;
+          background: var(--vscode-button-background);
+          color: var(--vscode-button-foreground);
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+        
+        .review-bar {
+          display: none;
+          align-items: center;
+          justify-content: space-between;
+          gap: 10px;
+          padding: 10px 15px;
+          border-top: 1px solid var(--vscode-widget-border);
+          flex-shrink: 0;
+        }
+        
+        body.reviewing .review-bar {
+          display: flex;
+        }
+        
+        .review-actions {
+          display: flex;
+          gap: 8px;
+        }
+        
+        .review-action {
+          padding: 6px 12px;
+          background: var(--vscode-button-secondaryBackground);
+          color: var(--vscode-button-secondaryForeground);
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+        
+        .review-action:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+        
+        .review-action.accept {
+          background: var(--vscode-testing-iconPassed);
+          color: white;
+        }
+        
+        .review-action.reject {
+          background: var(--vscode-testing-iconFailed);
+          color: white;
+        }
+        
+        .review-action kbd {
+          margin-left: 4px;
+          font-size: 10px;
+          opacity: 0.8;
+        }
+        
+        .review-badge {
+          position: absolute;
+          bottom: 10px;
+          left: 10px;
+          padding: 4px 8px;
+          border-radius: 4px;
+          font-size: 11px;
+          font-weight: 600;
+          text-transform: uppercase;
+          color: white;
+          display: none;
+        }
+        
+        .test-item[data-review] .review-badge {
+          display: block;
+          background: var(--vscode-testing-iconSkipped);
+        }
+        
+        .test-item[data-review="accepted"] .review-badge {
+          background: var(--vscode-testing-iconPassed);
+        }
+        
+        .test-item[data-review="rejected"] .review-badge {
+          background: var(--vscode-testing-iconFailed);
+        }
+        
         .keyboard-hint {
           position: absolute;
           bottom: 20px;
@@ -2175,7 +2491,12 @@ function generateGalleryHtml(
           ${resultSetSelectorHtml}
         </div>
         <div class="stats">
-          ${testResults.length} failed test${testResults.length !== 1 ? 's' : ''} with screenshots${selectedLocation ? ` from ${selectedLocation.displayName}` : ''}. Click on any thumbnail to view full size.
+          <span id="result-count">${testResults.length} failed test${testResults.length !== 1 ? 's' : ''}</span> with screenshots${selectedLocation ? ` from ${escapeHtml(selectedLocation.displayName)}` : ''}. Click on any thumbnail to view full size.
+          ${hasReviewableResults ? `
+          <button class="review-start-button" onclick="startReview()" title="Accept or reject each failed screenshot">Review Failures</button>
+          <button class="review-start-button" onclick="acceptAllVisible()" title="Accept every screenshot matching the search as its new baseline">Accept All Visible</button>
+          ` : ''}
+          <span id="review-summary"></span>
         </div>
         <div class="search-container">
           <input type="text" id="search-input" placeholder="Search for tests..." />
@@ -2193,6 +2514,7 @@ function generateGalleryHtml(
               ← Back to Grid
             </button>
             <h3 class="modal-title" id="modal-title">Screenshot</h3>
+            <div class="attempt-switcher" id="attempt-switcher" hidden></div>
             <div class="modal-header-buttons">
               <button id="modal-diff-button" class="nav-button" onclick="viewDiffFromModal()" style="display: none;">
                 View Diff
@@ -2221,6 +2543,16 @@ function generateGalleryHtml(
               </div>
             </div>
           </div>
+          <div class="review-bar">
+            <span id="review-progress"></span>
+            <div class="review-actions">
+              <button class="review-action accept" onclick="reviewDecision('accepted')" title="Copy the actual screenshot over the baseline">Accept <kbd>A</kbd></button>
+              <button class="review-action reject" onclick="reviewDecision('rejected')" title="Keep the baseline">Reject <kbd>R</kbd></button>
+              <button class="review-action" onclick="reviewDecision('skipped')" title="Decide later">Skip <kbd>S</kbd></button>
+              <button class="review-action" id="review-undo" onclick="undoReview()" disabled>Undo <kbd>U</kbd></button>
+              <button class="review-action" onclick="closeModal()">Done <kbd>Esc</kbd></button>
+            </div>
+          </div>
           <div class="modal-footer">
             <div class="footer-info" id="modal-info"></div>
             <div class="modal-controls">
@@ -2248,6 +2580,7 @@ function generateGalleryHtml(
         let currentTestId = null;
         let singleImageView = false;
         let currentImageType = null; // 'expected', 'actual', or 'diff'
+        let currentAttempt = null; // Index of the attempt picked in the modal, null for the tile's own
         
         // Switch to a different result set
         function switchResultSet(relativePath) {
@@ -2316,8 +2649,13 @@ function generateGalleryHtml(
           document.querySelectorAll('.test-item').forEach(item => {
             const testName = item.querySelector('.test-name').textContent.toLowerCase();
             const testFile = item.closest('.test-group').dataset.file.toLowerCase();
+            const project = (item.dataset.project || '').toLowerCase();
             
-            if (testName.includes(searchTerm) || testFile.includes(searchTerm)) {
+            // Every word must match the name, file or project, e.g. "checkout webkit"
+            const matches = searchTerm.split(/\s+/).every(term =>
+              testName.includes(term) || testFile.includes(term) || project.includes(term)
+            );
+            if (matches) {
               item.style.display = 'block';
             } else {
               item.style.display = 'none';
@@ -2381,6 +2719,9 @@ function generateGalleryHtml(
           
           // Get test item and set as current
           const testItem = imgElement.closest('.test-item');
+          if (testItem.id !== currentTestId) {
+            currentAttempt = null;
+          }
           currentTestId = testItem.id;
           
           // Highlight the current item
@@ -2482,14 +2823,6 @@ function generateGalleryHtml(
             }
           }
           
-          // Show/hide diff button based on availability of diff image
-          const modalDiffButton = document.getElementById('modal-diff-button');
-          if (testItem.dataset.diff) {
-            modalDiffButton.style.display = 'inline-block';
-          } else {
-            modalDiffButton.style.display = 'none';
-          }
-          
           // Update navigation buttons
           updateNavigationButtons();
           
@@ -2497,15 +2830,13 @@ function generateGalleryHtml(
           modal.style.display = 'flex';
           
           // Always request URIs from the extension to ensure all images are loaded
-          vscode.postMessage({
-            command: 'getImageUris',
-            expected: testItem.dataset.expected,
-            actual: testItem.dataset.actual,
-            diff: testItem.dataset.diff
-          });
+          renderAttemptSwitcher(testItem);
+          showModalImages(testItem);
           
           // But immediately set the current view's image if we have it from thumbnail
-          if (singleImageView) {
+          if (currentAttempt !== null) {
+            // The thumbnail belongs to another attempt
+          } else if (singleImageView) {
             if (currentImageType === 'diff') {
               document.getElementById('diff-image').src = thumbnailImage;
             }
@@ -2527,6 +2858,64 @@ function generateGalleryHtml(
           }
         }
         
+        // Screenshots of the attempt picked in the modal, or of the tile
+        function getModalImages(testItem) {
+          const attempts = testItem.dataset.attempts ? JSON.parse(testItem.dataset.attempts) : [];
+          if (currentAttempt !== null && attempts[currentAttempt]) {
+            return attempts[currentAttempt];
+          }
+          return {
+            expected: testItem.dataset.expected,
+            actual: testItem.dataset.actual,
+            diff: testItem.dataset.diff
+          };
+        }
+        
+        // Load the modal's images and show the diff button when there's a pair to compare
+        function showModalImages(testItem) {
+          const images = getModalImages(testItem);
+          document.getElementById('modal-diff-button').style.display =
+            images.expected && images.actual ? 'inline-block' : 'none';
+          
+          vscode.postMessage({
+            command: 'getImageUris',
+            expected: images.expected,
+            actual: images.actual,
+            diff: images.diff
+          });
+        }
+        
+        // One button per attempt of a test that was retried
+        function renderAttemptSwitcher(testItem) {
+          const switcher = document.getElementById('attempt-switcher');
+          switcher.innerHTML = '';
+          
+          const attempts = testItem.dataset.attempts ? JSON.parse(testItem.dataset.attempts) : [];
+          switcher.hidden = attempts.length < 2;
+          const selected = currentAttempt !== null ? currentAttempt : Number(testItem.dataset.attempt);
+          
+          attempts.forEach((attempt, index) => {
+            const button = document.createElement('button');
+            button.className = 'attempt-button ' + attempt.status + (index === selected ? ' selected' : '');
+            button.textContent = (attempt.retry === 0 ? 'Run' : 'Retry ' + attempt.retry) + ' · ' + attempt.status;
+            button.title = [attempt.shard, attempt.error ? attempt.error.split('\\n')[0] : attempt.status]
+              .filter(Boolean).join(' · ');
+            button.disabled = !(attempt.expected || attempt.actual || attempt.diff);
+            button.onclick = () => switchAttempt(index);
+            switcher.appendChild(button);
+          });
+        }
+        
+        // Compare the screenshots of another attempt of the open test
+        function switchAttempt(index) {
+          const testItem = document.getElementById(currentTestId);
+          if (!testItem) return;
+          
+          currentAttempt = index;
+          renderAttemptSwitcher(testItem);
+          showModalImages(testItem);
+        }
+        
         // View diff from modal
         function viewDiffFromModal() {
           // Get the current test item
@@ -2534,11 +2923,12 @@ function generateGalleryHtml(
           if (!testItem) return;
           
           // Call the same viewComparisonDiff command as the thumbnail view
+          const images = getModalImages(testItem);
           vscode.postMessage({
             command: 'viewComparisonDiff',
-            actual: testItem.dataset.actual,
-            expected: testItem.dataset.expected,
-            diff: testItem.dataset.diff
+            actual: images.actual,
+            expected: images.expected,
+            diff: images.diff
           });
         }
         
@@ -2563,6 +2953,22 @@ function generateGalleryHtml(
             // Check for modifier key (Ctrl or Cmd)
             const isModifierPressed = e.ctrlKey || e.metaKey;
             
+            // Review shortcuts
+            if (document.body.classList.contains('reviewing') && !e.altKey) {
+              const key = e.key.toLowerCase();
+              if (isModifierPressed ? key === 'z' : key === 'u') {
+                e.preventDefault();
+                undoReview();
+                return;
+              }
+              const decision = isModifierPressed ? null : { a: 'accepted', r: 'rejected', s: 'skipped' }[key];
+              if (decision) {
+                e.preventDefault();
+                reviewDecision(decision);
+                return;
+              }
+            }
+            
             if (e.metaKey) {
               console.log("Command key is pressed!");
             }
@@ -2840,6 +3246,7 @@ function generateGalleryHtml(
         // Close modal
         function closeModal() {
           document.getElementById('screenshot-modal').style.display = 'none';
+          document.body.classList.remove('reviewing');
           
           // Remove highlight from current item
           document.querySelectorAll('.test-item').forEach(item => {
@@ -2868,22 +3275,150 @@ function generateGalleryHtml(
               document.getElementById('actual-container').classList.remove('loading');
               document.getElementById('diff-container').classList.remove('loading');
               
-              // Update image sources
-              if (message.uris.expected) {
-                document.getElementById('expected-image').src = message.uris.expected;
-              }
+              // Update image sources, clearing any left from another test or attempt
+              document.getElementById('expected-image').src = message.uris.expected || '';
+              document.getElementById('actual-image').src = message.uris.actual || '';
+              document.getElementById('diff-image').src = message.uris.diff || '';
+              break;
+
+            case 'reviewState':
+              updateReviewState(message);
+              break;
               
-              if (message.uris.actual) {
-                document.getElementById('actual-image').src = message.uris.actual;
-              }
+            case 'resultsChanged':
+              applyResultsChanged(message);
+              break;
               
-              if (message.uris.diff) {
-                document.getElementById('diff-image').src = message.uris.diff;
+            case 'diffStats': {
+              // Mismatch numbers computed in the background
+              const mismatch = document.querySelector('#' + CSS.escape(message.testId) + ' .mismatch');
+              if (mismatch) {
+                mismatch.textContent = message.label;
+                mismatch.title = message.summary;
+                mismatch.hidden = false;
               }
               break;
+            }
           }
         });
         
+        // Add, replace and remove tiles as the report is rewritten
+        function applyResultsChanged(message) {
+          message.removed.forEach(id => {
+            const item = document.getElementById(id);
+            if (!item) return;
+            const group = item.closest('.test-group');
+            item.remove();
+            if (group && !group.querySelector('.test-item')) group.remove();
+          });
+          
+          message.upserted.forEach(change => {
+            const existing = document.getElementById(change.id);
+            if (existing) {
+              existing.outerHTML = change.html;
+              return;
+            }
+            let group = Array.from(document.querySelectorAll('.test-group'))
+              .find(g => g.dataset.file === change.file);
+            if (!group) {
+              document.querySelector('.container').insertAdjacentHTML('beforeend', change.groupHtml);
+              group = document.querySelector('.container > .test-group:last-child');
+            }
+            group.querySelector('.tests-grid').insertAdjacentHTML('beforeend', change.html);
+          });
+          
+          document.getElementById('result-count').textContent =
+            message.total + ' failed test' + (message.total !== 1 ? 's' : '');
+          
+          // The new results start a new review
+          document.querySelectorAll('.test-item[data-review]').forEach(item => {
+            delete item.dataset.review;
+            item.querySelector('.review-badge').textContent = '';
+          });
+          updateReviewState(message.progress);
+          
+          // Apply the current search to the new tiles
+          document.getElementById('search-input').dispatchEvent(new Event('input'));
+        }
+        
+        // Review mode: step through failures with an actual screenshot
+        function getReviewItems() {
+          return Array.from(document.querySelectorAll('.test-item[data-actual]'));
+        }
+        
+        function isDecided(item) {
+          return item.dataset.review === 'accepted' || item.dataset.review === 'rejected';
+        }
+        
+        function openReviewItem(item) {
+          openScreenshotModal(item.querySelector('.screenshot-image'), { singleView: false, imageType: null });
+          document.body.classList.add('reviewing');
+          item.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+        
+        // Open the next undecided item after the given one, wrapping around
+        function openNextReviewItem(afterId) {
+          const items = getReviewItems();
+          const start = items.findIndex(item => item.id === afterId) + 1;
+          for (let offset = 0; offset < items.length; offset++) {
+            const item = items[(start + offset) % items.length];
+            if (!isDecided(item) && (item.id !== afterId || items.length === 1)) {
+              openReviewItem(item);
+              return;
+            }
+          }
+          closeModal();
+        }
+        
+        // Accept every visible screenshot that hasn't been accepted yet
+        function acceptAllVisible() {
+          const testIds = getVisibleTestItems()
+            .filter(item => item.dataset.actual && item.dataset.review !== 'accepted')
+            .map(item => item.id);
+          vscode.postMessage({ command: 'acceptAllVisible', testIds: testIds });
+        }
+        
+        function startReview() {
+          vscode.postMessage({ command: 'reviewProgress' });
+          openNextReviewItem(null);
+        }
+        
+        function reviewDecision(decision) {
+          if (!document.body.classList.contains('reviewing') || !currentTestId) return;
+          vscode.postMessage({ command: 'reviewDecision', testId: currentTestId, decision: decision });
+        }
+        
+        function undoReview() {
+          if (!document.body.classList.contains('reviewing')) return;
+          vscode.postMessage({ command: 'reviewUndo' });
+        }
+        
+        function updateReviewState(message) {
+          if (message.testId) {
+            const item = document.getElementById(message.testId);
+            if (item) {
+              if (message.decision) {
+                item.dataset.review = message.decision;
+                item.querySelector('.review-badge').textContent = message.decision;
+              } else {
+                delete item.dataset.review;
+              }
+            }
+          }
+          
+          const progress = message.reviewed + ' of ' + message.total + ' reviewed';
+          document.getElementById('review-progress').textContent = progress;
+          document.getElementById('review-summary').textContent = message.reviewed > 0 ? progress : '';
+          document.getElementById('review-undo').disabled = !message.canUndo;
+          
+          if (message.advance) {
+            openNextReviewItem(message.testId);
+          } else if (message.reopen) {
+            const item = document.getElementById(message.testId);
+            if (item) openReviewItem(item);
+          }
+        }
+        
         // Navigate between test cases
         function navigateTests(direction) {
           try {
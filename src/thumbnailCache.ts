@@ -0,0 +1,233 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, promises as fsPromises, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { decodePng, downscaleImage, encodePng } from "./png";
+import { onDidChangeSnapshotFiles } from "./snapshotWatcher";
+
+/** Bump to discard thumbnails written by an older format */
+const CACHE_VERSION = 1;
+
+/** Thumbnails are rendered at twice the gallery's 150px tile height */
+const THUMBNAIL_MAX_WIDTH = 400;
+const THUMBNAIL_MAX_HEIGHT = 300;
+
+/** Entries beyond this many are evicted, least recently used first */
+const MAX_ENTRIES = 5000;
+
+/** Entries not used for this long are evicted */
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * On-disk index of generated thumbnails, keyed by source image path
+ */
+interface SnapshotCache {
+  version: number;
+  timestamp: number;
+  snapshots: {
+    [path: string]: {
+      /** Thumbnail file name inside the cache directory */
+      thumbnail: string;
+      fullImage?: string;
+      /** Content hash of the source image */
+      hash: string;
+      /** Source mtime the entry was generated from */
+      lastModified: number;
+      /** When the thumbnail was last shown; stamped with the index's save time for older indexes */
+      lastUsed: number;
+    }
+  };
+}
+
+/**
+ * Downscaled gallery thumbnails stored under the extension's global storage.
+ * Files are named by the source's content hash, so identical baselines share
+ * one thumbnail, and entries are regenerated when the source's mtime changes.
+ * Entries of deleted sources, and ones unused for a month or beyond the size
+ * bound, are pruned along with thumbnails nothing refers to anymore.
+ */
+export class ThumbnailCache implements vscode.Disposable {
+  private readonly cacheDir: string;
+  private readonly indexPath: string;
+  private index: SnapshotCache;
+  private saveTimeout: NodeJS.Timeout | undefined;
+  private pruneTimeout: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(storageUri: vscode.Uri, private outputChannel: vscode.OutputChannel) {
+    this.cacheDir = join(storageUri.fsPath, "thumbnails");
+    this.indexPath = join(this.cacheDir, "index.json");
+    this.index = this.loadIndex();
+
+    // Deleted and renamed baselines leave their entries behind
+    this.disposables.push(
+      onDidChangeSnapshotFiles((changes) => {
+        if (changes.deleted.some((path) => this.index.snapshots[path])) {
+          changes.deleted.forEach((path) => delete this.index.snapshots[path]);
+          this.schedulePrune();
+        }
+      })
+    );
+    // Off the activation path
+    this.schedulePrune(10000);
+  }
+
+  /** Directory the webview must be allowed to load thumbnails from */
+  get directory(): vscode.Uri {
+    return vscode.Uri.file(this.cacheDir);
+  }
+
+  /**
+   * Thumbnail for an image if one is cached and still current, without
+   * generating anything
+   */
+  getCached(imagePath: string): string | undefined {
+    const entry = this.index.snapshots[imagePath];
+    if (!entry) {
+      return undefined;
+    }
+    try {
+      const thumbnailPath = join(this.cacheDir, entry.thumbnail);
+      if (statSync(imagePath).mtimeMs === entry.lastModified && existsSync(thumbnailPath)) {
+        entry.lastUsed = Date.now();
+        this.scheduleSave();
+        return thumbnailPath;
+      }
+    } catch {
+      // Source was deleted
+    }
+    return undefined;
+  }
+
+  /**
+   * Thumbnail for an image, generating it when missing or stale. Falls back
+   * to the image itself when it can't be decoded.
+   */
+  async getThumbnail(imagePath: string): Promise<string> {
+    const cached = this.getCached(imagePath);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const stat = await fsPromises.stat(imagePath);
+      const content = await fsPromises.readFile(imagePath);
+      const hash = createHash("sha1").update(content).digest("hex");
+      const thumbnail = `${hash}.png`;
+      const thumbnailPath = join(this.cacheDir, thumbnail);
+
+      // Indexed before the file is written, so a prune meanwhile doesn't delete it
+      this.index.snapshots[imagePath] = { thumbnail, hash, lastModified: stat.mtimeMs, lastUsed: Date.now() };
+      if (!existsSync(thumbnailPath)) {
+        const image = downscaleImage(decodePng(content), THUMBNAIL_MAX_WIDTH, THUMBNAIL_MAX_HEIGHT);
+        mkdirSync(this.cacheDir, { recursive: true });
+        await fsPromises.writeFile(thumbnailPath, encodePng(image));
+      }
+
+      if (Object.keys(this.index.snapshots).length > MAX_ENTRIES) {
+        this.schedulePrune();
+      }
+      this.scheduleSave();
+      return thumbnailPath;
+    } catch (error) {
+      delete this.index.snapshots[imagePath];
+      this.outputChannel.appendLine(`Could not create thumbnail for ${imagePath}: ${error}`);
+      return imagePath;
+    }
+  }
+
+  /**
+   * Generate thumbnails for many images one at a time, reporting each as it's
+   * ready. Yields between images so the extension host stays responsive.
+   */
+  async generate(
+    imagePaths: string[],
+    onThumbnail: (imagePath: string, thumbnailPath: string) => void,
+    token?: { cancelled: boolean }
+  ) {
+    for (const imagePath of imagePaths) {
+      if (token?.cancelled) {
+        return;
+      }
+      onThumbnail(imagePath, await this.getThumbnail(imagePath));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  private loadIndex(): SnapshotCache {
+    try {
+      const index = JSON.parse(readFileSync(this.indexPath, "utf8")) as SnapshotCache;
+      if (index.version === CACHE_VERSION && index.snapshots) {
+        // Entries from before lastUsed was recorded age from the last save
+        Object.values(index.snapshots).forEach((entry) => (entry.lastUsed ??= index.timestamp));
+        return index;
+      }
+    } catch {
+      // No index yet
+    }
+    return { version: CACHE_VERSION, timestamp: Date.now(), snapshots: {} };
+  }
+
+  private schedulePrune(delay = 1000) {
+    clearTimeout(this.pruneTimeout);
+    this.pruneTimeout = setTimeout(() => this.prune(), delay);
+  }
+
+  /**
+   * Drop entries whose source is gone, unused for too long or beyond the
+   * size bound, then delete thumbnail files no entry refers to
+   */
+  prune() {
+    clearTimeout(this.pruneTimeout);
+    const now = Date.now();
+    const entries = Object.entries(this.index.snapshots)
+      .filter(([path, entry]) => now - entry.lastUsed < MAX_AGE_MS && existsSync(path))
+      .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+      .slice(0, MAX_ENTRIES);
+    const removed = Object.keys(this.index.snapshots).length - entries.length;
+    this.index.snapshots = Object.fromEntries(entries);
+
+    const referenced = new Set(entries.map(([, entry]) => entry.thumbnail));
+    let deleted = 0;
+    try {
+      for (const file of readdirSync(this.cacheDir)) {
+        if (file.endsWith(".png") && !referenced.has(file)) {
+          unlinkSync(join(this.cacheDir, file));
+          deleted++;
+        }
+      }
+    } catch {
+      // No cache directory yet
+    }
+
+    if (removed > 0 || deleted > 0) {
+      this.outputChannel.appendLine(`Pruned ${removed} thumbnail entries and ${deleted} thumbnail files`);
+      this.save();
+    }
+  }
+
+  private scheduleSave() {
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = setTimeout(() => this.save(), 1000);
+  }
+
+  /**
+   * Write the index to disk
+   */
+  save() {
+    clearTimeout(this.saveTimeout);
+    try {
+      mkdirSync(this.cacheDir, { recursive: true });
+      this.index.timestamp = Date.now();
+      writeFileSync(this.indexPath, JSON.stringify(this.index));
+    } catch (error) {
+      this.outputChannel.appendLine(`Could not save thumbnail index: ${error}`);
+    }
+  }
+
+  dispose() {
+    clearTimeout(this.pruneTimeout);
+    this.save();
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,480 @@
+import * as vscode from "vscode";
+import { existsSync } from "fs";
+import { isAbsolute, normalize, relative, sep } from "path";
+import { TITLE_SEPARATOR } from "./jsonReport";
+import { onDidCompletePlaywrightRun } from "./playwrightRunner";
+import {
+  findNearestPlaywrightConfig,
+  getConfigRoot,
+  getProjectsForFile,
+  ResolvedPlaywrightConfig,
+  ResolvedProject,
+  resolveAllConfigs,
+  resolveConfigForFile,
+} from "./playwrightConfig";
+import { SnapshotIndex } from "./snapshotIndex";
+import { TestSnapshot } from "./snapshotLocator";
+import { getTestFileGlob, isTestFilePath, onDidChangeSettings } from "./settings";
+import { resolveBaselinePath } from "./snapshotReview";
+import { onDidChangeSnapshotFiles } from "./snapshotWatcher";
+import { TestControllerActions } from "./testController";
+import { flattenTestBlocks, TestBlock, TestCache } from "./testDiscovery";
+import { loadLatestTestResults, TestResult } from "./testResultsGallery";
+
+const VIEW_ID = "playwright-helpers.visualTests";
+
+/** Report statuses that don't count as a failure */
+const NON_FAILING_STATUSES = ["passed", "expected", "flaky", "skipped", "unknown"];
+
+type VisualTestNode =
+  | { kind: "workspace"; folder: vscode.WorkspaceFolder }
+  | { kind: "config"; folder: vscode.WorkspaceFolder; config: ResolvedPlaywrightConfig }
+  | { kind: "project"; folder: vscode.WorkspaceFolder; config: ResolvedPlaywrightConfig; project: ResolvedProject }
+  | { kind: "spec"; uri: vscode.Uri; config?: ResolvedPlaywrightConfig; project?: ResolvedProject }
+  | { kind: "block"; uri: vscode.Uri; config?: ResolvedPlaywrightConfig; project?: ResolvedProject; block: TestBlock }
+  | { kind: "baseline"; snapshot: TestSnapshot };
+
+function isInside(dir: string, file: string): boolean {
+  const rel = relative(dir, file);
+  return !!rel && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+/**
+ * Whether a report result is the outcome of a test (or of a test inside a
+ * describe) declared in a spec file
+ */
+function resultMatches(result: TestResult, specPath: string, block?: TestBlock, project?: ResolvedProject): boolean {
+  const reportedFile = normalize(result.location?.file || result.testFile);
+  const sameFile = reportedFile === normalize(specPath) || normalize(specPath).endsWith(sep + reportedFile);
+  if (!sameFile) {
+    return false;
+  }
+  if (project && result.projectName !== undefined && result.projectName !== project.name) {
+    return false;
+  }
+  if (!block) {
+    return true;
+  }
+  if (block.kind === "describe") {
+    return flattenTestBlocks(block.children, "test").some((test) => resultMatches(result, specPath, test, project));
+  }
+  return result.location?.line !== undefined
+    ? result.location.line === block.startLine + 1
+    : [block.titlePath.join(TITLE_SEPARATOR), block.fullTitle, block.name].includes(result.name);
+}
+
+/**
+ * "Visual Tests" view: workspace → config → project → spec → describe →
+ * test → baselines, with failures from the latest JSON report of each config.
+ * Workspace and config levels only appear when there is more than one.
+ */
+export class VisualTestsView
+  implements vscode.TreeDataProvider<VisualTestNode>, vscode.FileDecorationProvider, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<VisualTestNode | undefined>();
+  public readonly onDidChangeTreeData: vscode.Event<VisualTestNode | undefined> = this._onDidChangeTreeData.event;
+  private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  public readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri | vscode.Uri[] | undefined> =
+    this._onDidChangeFileDecorations.event;
+
+  /** Failed results of each config's latest report */
+  private failures: TestResult[] = [];
+  /** Config root of the report each failure came from */
+  private failureRoots = new WeakMap<TestResult, string>();
+  /** Baselines the latest report's failed screenshots were compared with */
+  private failedBaselines = new Set<string>();
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private specWatchers: vscode.Disposable[] = [];
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private testCache: TestCache,
+    private outputChannel: vscode.OutputChannel,
+    private actions: TestControllerActions,
+    private snapshotIndex: SnapshotIndex
+  ) {
+    this.watchSpecFiles();
+    this.disposables.push(
+      this._onDidChangeTreeData,
+      this._onDidChangeFileDecorations,
+      vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this, showCollapseAll: true }),
+      vscode.window.registerFileDecorationProvider(this),
+      onDidChangeSettings(() => {
+        this.watchSpecFiles();
+        this.refresh();
+      }),
+      onDidCompletePlaywrightRun((result) => !result.cancelled && this.refresh()),
+      onDidChangeSnapshotFiles((changes) => changes.reports.length > 0 && this.refresh()),
+      snapshotIndex.onDidChange(() => this.scheduleRefresh()),
+      vscode.commands.registerCommand("playwright-helpers.refreshVisualTests", () => this.refresh()),
+      vscode.commands.registerCommand("playwright-helpers.visualTests.update", (node: VisualTestNode) =>
+        this.update(node)
+      ),
+      vscode.commands.registerCommand("playwright-helpers.visualTests.viewSnapshots", (node: VisualTestNode) =>
+        this.viewSnapshots(node)
+      ),
+      vscode.commands.registerCommand("playwright-helpers.visualTests.showDiff", (node: VisualTestNode) =>
+        this.showDiff(node)
+      ),
+      vscode.commands.registerCommand("playwright-helpers.visualTests.openTest", (node: VisualTestNode) =>
+        this.openTest(node)
+      )
+    );
+
+    this.refresh();
+  }
+
+  /**
+   * Reload the latest report and rebuild the tree
+   */
+  async refresh() {
+    try {
+      this.failures = [];
+      this.failureRoots = new WeakMap();
+      for (const latest of await loadLatestTestResults(this.outputChannel)) {
+        for (const result of latest.results.filter((result) => !NON_FAILING_STATUSES.includes(result.status))) {
+          this.failures.push(result);
+          if (latest.configRoot) {
+            this.failureRoots.set(result, latest.configRoot);
+          }
+        }
+      }
+      this.failedBaselines = await this.resolveFailedBaselines();
+    } catch (error) {
+      this.outputChannel.appendLine(`Error refreshing Visual Tests view: ${error}`);
+    }
+    this._onDidChangeTreeData.fire(undefined);
+    this._onDidChangeFileDecorations.fire(undefined);
+  }
+
+  private watchSpecFiles() {
+    this.specWatchers.forEach((d) => d.dispose());
+    const watcher = vscode.workspace.createFileSystemWatcher(getTestFileGlob());
+    this.specWatchers = [
+      watcher,
+      watcher.onDidCreate(() => this.scheduleRefresh()),
+      watcher.onDidDelete(() => this.scheduleRefresh()),
+      watcher.onDidChange(() => this.scheduleRefresh()),
+    ];
+  }
+
+  /**
+   * Show spec and baseline changes made outside the extension, e.g. by a
+   * terminal run
+   */
+  private scheduleRefresh() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this._onDidChangeTreeData.fire(undefined);
+    }, 500);
+  }
+
+  private async resolveFailedBaselines(): Promise<Set<string>> {
+    const baselines = new Set<string>();
+    for (const result of this.failures) {
+      const actual = result.screenshotSet?.actual?.path;
+      if (!actual) {
+        continue;
+      }
+      const baseline = await resolveBaselinePath(
+        {
+          id: actual,
+          testName: result.name,
+          testFile: result.location?.file || result.testFile,
+          line: result.location?.line,
+          projectName: result.projectName,
+          actual,
+          expected: result.screenshotSet?.expected?.path,
+        },
+        this.failureRoots.get(result) ?? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(actual))?.uri.fsPath ?? ""
+      );
+      if (baseline && existsSync(baseline)) {
+        baselines.add(normalize(baseline));
+      }
+    }
+    return baselines;
+  }
+
+  /**
+   * Failures from the latest reports that belong under a node
+   */
+  private failuresFor(node: VisualTestNode): TestResult[] {
+    switch (node.kind) {
+      case "workspace":
+        return this.failures.filter((result) =>
+          [result.location?.file, result.testFile].some(
+            (file) => file && isAbsolute(file) && isInside(node.folder.uri.fsPath, file)
+          )
+        );
+      case "config":
+        return this.failures.filter((result) => this.failureRoots.get(result) === getConfigRoot(node.config));
+      case "project":
+        return this.failures.filter(
+          (result) =>
+            result.projectName === node.project.name &&
+            [undefined, getConfigRoot(node.config)].includes(this.failureRoots.get(result))
+        );
+      case "spec":
+        return this.failures.filter((result) => resultMatches(result, node.uri.fsPath, undefined, node.project));
+      case "block":
+        return this.failures.filter((result) => resultMatches(result, node.uri.fsPath, node.block, node.project));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: VisualTestNode): vscode.TreeItem {
+    const failed = this.failuresFor(node).length;
+    const failedDescription = failed > 0 ? `${failed} failed` : undefined;
+
+    switch (node.kind) {
+      case "workspace": {
+        const item = new vscode.TreeItem(node.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon("root-folder");
+        item.description = failedDescription;
+        return item;
+      }
+      case "config": {
+        const item = new vscode.TreeItem(
+          relative(node.folder.uri.fsPath, getConfigRoot(node.config)) || node.folder.name,
+          vscode.TreeItemCollapsibleState.Expanded
+        );
+        item.iconPath = new vscode.ThemeIcon("gear");
+        item.description = failedDescription;
+        item.tooltip = node.config.configFile;
+        return item;
+      }
+      case "project": {
+        const item = new vscode.TreeItem(node.project.name || "default project", vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = new vscode.ThemeIcon("project");
+        item.description = failedDescription;
+        item.tooltip = node.project.testDir;
+        return item;
+      }
+      case "spec": {
+        const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Collapsed);
+        item.label = node.project
+          ? relative(node.project.testDir, node.uri.fsPath)
+          : vscode.workspace.asRelativePath(node.uri, false);
+        item.description = failedDescription;
+        item.contextValue = "visualTestSpec";
+        return item;
+      }
+      case "block": {
+        const { block } = node;
+        const isTest = block.kind === "test";
+        const collapsible = isTest
+          ? block.snapshots.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+          : vscode.TreeItemCollapsibleState.Expanded;
+        const item = new vscode.TreeItem(block.name || "(anonymous)", collapsible);
+        item.iconPath = failed > 0
+          ? new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"))
+          : new vscode.ThemeIcon(isTest ? "beaker" : "symbol-namespace");
+        item.description = isTest ? (failed > 0 ? "failed" : block.modifiers.join(", ") || undefined) : failedDescription;
+        item.tooltip = block.fullTitle;
+        item.contextValue = isTest ? (failed > 0 ? "visualTest.failed" : "visualTest") : "visualTestDescribe";
+        item.command = {
+          title: "Go to Test",
+          command: "playwright-helpers.visualTests.openTest",
+          arguments: [node],
+        };
+        return item;
+      }
+      case "baseline": {
+        const { snapshot } = node;
+        const item = new vscode.TreeItem(vscode.Uri.file(snapshot.path));
+        item.description = [snapshot.project.name, snapshot.platform].filter(Boolean).join(" · ");
+        item.tooltip = snapshot.path;
+        item.contextValue = "visualTestBaseline";
+        item.command = { title: "Open", command: "vscode.open", arguments: [vscode.Uri.file(snapshot.path)] };
+        return item;
+      }
+    }
+  }
+
+  async getChildren(node?: VisualTestNode): Promise<VisualTestNode[]> {
+    if (!node) {
+      const folders = vscode.workspace.workspaceFolders ?? [];
+      if (folders.length === 1) {
+        return this.getFolderChildren(folders[0]);
+      }
+      return folders.map((folder) => ({ kind: "workspace", folder }));
+    }
+
+    switch (node.kind) {
+      case "workspace":
+        return this.getFolderChildren(node.folder);
+      case "config":
+        return this.getProjectNodes(node.folder, node.config);
+      case "project":
+        return this.getSpecNodes(node.folder, node.config, node.project);
+      case "spec":
+        return this.getBlockNodes(node, await this.testCache.getTestTreeForFile(node.uri));
+      case "block":
+        if (node.block.kind === "describe") {
+          return this.getBlockNodes(node, node.block.children);
+        }
+        return this.getBaselineNodes(node);
+      default:
+        return [];
+    }
+  }
+
+  private async getFolderChildren(folder: vscode.WorkspaceFolder): Promise<VisualTestNode[]> {
+    const configs = (await resolveAllConfigs()).filter(
+      (config) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(config.configFile))?.uri.fsPath === folder.uri.fsPath
+    );
+    if (configs.length > 1) {
+      return configs.map((config) => ({ kind: "config", folder, config }));
+    }
+    if (configs.length === 1) {
+      return this.getProjectNodes(folder, configs[0]);
+    }
+    return this.getSpecNodes(folder);
+  }
+
+  private async getProjectNodes(folder: vscode.WorkspaceFolder, config: ResolvedPlaywrightConfig): Promise<VisualTestNode[]> {
+    if (config.projects.length > 0) {
+      return config.projects.map((project) => ({ kind: "project", folder, config, project }));
+    }
+    return this.getSpecNodes(folder, config);
+  }
+
+  private async getSpecNodes(
+    folder: vscode.WorkspaceFolder,
+    config?: ResolvedPlaywrightConfig,
+    project?: ResolvedProject
+  ): Promise<VisualTestNode[]> {
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, getTestFileGlob()), "**/node_modules/**");
+    const nodes: VisualTestNode[] = [];
+    for (const uri of files.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+      // Specs of a nested package belong to its own config
+      if (config && normalize(findNearestPlaywrightConfig(uri.fsPath) ?? config.configFile) !== normalize(config.configFile)) {
+        continue;
+      }
+      if (config && project && !getProjectsForFile(config, uri.fsPath).some((p) => p.name === project.name)) {
+        continue;
+      }
+      if ((await this.testCache.getTestTreeForFile(uri)).length > 0) {
+        nodes.push({ kind: "spec", uri, config, project });
+      }
+    }
+    return nodes;
+  }
+
+  private getBlockNodes(
+    parent: { uri: vscode.Uri; config?: ResolvedPlaywrightConfig; project?: ResolvedProject },
+    blocks: TestBlock[]
+  ): VisualTestNode[] {
+    const nodes: VisualTestNode[] = [];
+    for (const block of blocks) {
+      if (block.kind === "step") {
+        continue;
+      }
+      // Anonymous describes don't get their own node in the tree
+      if (block.kind === "describe" && !block.name) {
+        nodes.push(...this.getBlockNodes(parent, block.children));
+        continue;
+      }
+      nodes.push({ kind: "block", uri: parent.uri, config: parent.config, project: parent.project, block });
+    }
+    return nodes;
+  }
+
+  private async getBaselineNodes(node: Extract<VisualTestNode, { kind: "block" }>): Promise<VisualTestNode[]> {
+    const snapshots = await this.findSnapshots(node);
+    return snapshots.map((snapshot) => ({ kind: "baseline", snapshot }));
+  }
+
+  private async findSnapshots(node: Extract<VisualTestNode, { kind: "block" }>): Promise<TestSnapshot[]> {
+    const config = node.config ?? (await resolveConfigForFile(node.uri.fsPath));
+    if (!config) {
+      return [];
+    }
+    const snapshots = await this.snapshotIndex.findTestSnapshots(config, node.uri.fsPath, node.block);
+    return node.project ? snapshots.filter((snapshot) => snapshot.project.name === node.project!.name) : snapshots;
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== "file") {
+      return undefined;
+    }
+    if (this.failedBaselines.has(normalize(uri.fsPath))) {
+      return new vscode.FileDecoration("!", "Screenshot failed in the latest run", new vscode.ThemeColor("testing.iconFailed"));
+    }
+    if (!isTestFilePath(uri.fsPath)) {
+      return undefined;
+    }
+    const failed = this.failures.filter((result) => resultMatches(result, uri.fsPath)).length;
+    if (failed === 0) {
+      return undefined;
+    }
+    const decoration = new vscode.FileDecoration(
+      failed > 99 ? "99" : String(failed),
+      `${failed} visual test${failed === 1 ? "" : "s"} failed in the latest run`,
+      new vscode.ThemeColor("testing.iconFailed")
+    );
+    decoration.propagate = true;
+    return decoration;
+  }
+
+  private async update(node: VisualTestNode) {
+    if (node.kind === "spec") {
+      await this.actions.runPlaywright({ path: node.uri.fsPath, confirm: true });
+    } else if (node.kind === "block") {
+      await this.actions.runPlaywright({ path: node.uri.fsPath, test: node.block, confirm: true });
+    }
+  }
+
+  private async viewSnapshots(node: VisualTestNode) {
+    if (node.kind !== "block") {
+      return;
+    }
+    const snapshots = await this.findSnapshots(node);
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage(`No baselines found for "${node.block.fullTitle}"`);
+      return;
+    }
+    await vscode.commands.executeCommand("playwright-helpers.viewTestSnapshots", node.block.fullTitle, snapshots);
+  }
+
+  private async showDiff(node: VisualTestNode) {
+    if (node.kind !== "block") {
+      return;
+    }
+    const failure = this.failuresFor(node).find(
+      (result) => result.screenshotSet?.actual && result.screenshotSet?.expected
+    );
+    const files = failure
+      ? {
+          actual: failure.screenshotSet!.actual!.path,
+          expected: failure.screenshotSet!.expected!.path,
+          diff: failure.screenshotSet!.diff?.path,
+        }
+      : await this.actions.findFailedSnapshotFiles(node.uri.fsPath, node.block.name);
+    if (!files) {
+      vscode.window.showInformationMessage(`No failed screenshots found for "${node.block.fullTitle}"`);
+      return;
+    }
+    await vscode.commands.executeCommand("playwright-helpers.showSnapshotDiff", files.actual, files.expected, files.diff);
+  }
+
+  private async openTest(node: VisualTestNode) {
+    if (node.kind !== "block" && node.kind !== "spec") {
+      return;
+    }
+    const line = node.kind === "block" ? node.block.startLine : 0;
+    await vscode.window.showTextDocument(node.uri, { selection: new vscode.Range(line, 0, line, 0) });
+  }
+
+  dispose() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.specWatchers.forEach((d) => d.dispose());
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
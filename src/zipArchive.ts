@@ -0,0 +1,89 @@
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** The end record is 22 bytes followed by a comment of up to 64 KiB */
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * A file inside a zip archive, decompressed on demand
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  read(): Buffer;
+}
+
+/**
+ * List the files of a zip archive from its central directory. Handles the
+ * stored and deflated entries Playwright writes; zip64 and encrypted
+ * archives, and entry names that would escape the folder they're extracted
+ * to, are rejected.
+ */
+export function readZipEntries(data: Buffer): ZipEntry[] {
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - MAX_END_RECORD_SEARCH); offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a zip archive");
+  }
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localHeader = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength).replace(/\\/g, "/");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories have no content
+    if (name.endsWith("/")) {
+      continue;
+    }
+    if (name.startsWith("/") || /^[a-zA-Z]:/.test(name) || name.split("/").includes("..")) {
+      throw new Error(`Unsafe zip entry name: ${name}`);
+    }
+
+    entries.push({
+      name,
+      read: () => {
+        if (flags & 0x1) {
+          throw new Error(`Encrypted zip entry: ${name}`);
+        }
+        if (data.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt zip entry: ${name}`);
+        }
+        // The local header's name and extra field may differ from the central directory's
+        const start = localHeader + 30 + data.readUInt16LE(localHeader + 26) + data.readUInt16LE(localHeader + 28);
+        const content = data.subarray(start, start + compressedSize);
+        if (method === 0) {
+          return Buffer.from(content);
+        }
+        if (method === 8) {
+          return inflateRawSync(content);
+        }
+        throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+      },
+    });
+  }
+  return entries;
+}